@@ -0,0 +1,70 @@
+import { RiskLevel, TokenApproval } from "../types/interfaces";
+
+const RISK_THRESHOLDS: Array<[number, RiskLevel]> = [
+  [70, "high"],
+  [40, "medium"],
+  [0, "low"],
+];
+
+/**
+ * Scores token approvals by what the authority holder could take: a new
+ * owner controls the account outright, a delegate can move its allowance
+ * (all of it when unlimited, including future deposits) and a close
+ * authority can only reclaim rent once the account is empty. Holders that
+ * aren't a known program or labelled address score higher.
+ * @param approvals - Approvals found on the wallet's token accounts
+ * @returns Approvals with risk levels and reasons, riskiest first
+ */
+export function rankApprovals(
+  approvals: Omit<TokenApproval, "risk" | "riskScore" | "reasons">[]
+): TokenApproval[] {
+  return approvals
+    .map((approval) => {
+      const { score, reasons } = scoreApproval(approval);
+      const risk = RISK_THRESHOLDS.find(([threshold]) => score >= threshold)![1];
+      return { ...approval, risk, riskScore: score, reasons };
+    })
+    .sort((a, b) => b.riskScore - a.riskScore || b.balance - a.balance);
+}
+
+function scoreApproval(
+  approval: Omit<TokenApproval, "risk" | "riskScore" | "reasons">
+): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  switch (approval.kind) {
+    case "owner":
+      score += 80;
+      reasons.push("Token account was reassigned and is no longer controlled by this wallet");
+      break;
+    case "delegate":
+      score += 40;
+      if (approval.unlimited) {
+        score += 20;
+        reasons.push("Unlimited approval covers the whole balance and future deposits");
+      } else {
+        reasons.push(
+          `Delegate can transfer up to ${(approval.delegatedAmount || 0).toLocaleString("en-US")} ${
+            approval.symbol
+          }`
+        );
+      }
+      if (approval.balance === 0) {
+        score -= 20;
+        reasons.push("Account is currently empty");
+      }
+      break;
+    case "closeAuthority":
+      score += 20;
+      reasons.push("Can close the account once it is empty and claim its rent");
+      break;
+  }
+
+  if (!approval.known) {
+    score += 30;
+    reasons.push("Authority is not a known program or labelled address");
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
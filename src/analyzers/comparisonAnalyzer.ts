@@ -0,0 +1,100 @@
+import {
+  WalletActivity,
+  ComparedWallet,
+  WalletComparison,
+  SharedItem,
+} from "../types/interfaces";
+import { protocolRegistry } from "../services/protocolRegistry";
+
+/**
+ * Compares analyzed wallets and finds the protocols and counterparties they
+ * have in common
+ * @param wallets - Profile, patterns, recommendations and activity of each wallet
+ * @returns Per-wallet summaries plus shared and unique protocols and counterparties
+ */
+export function compareWallets(wallets: ComparedWallet[]): WalletComparison {
+  const protocols = new Map<string, Set<string>>();
+  const counterparties = new Map<string, Set<string>>();
+
+  for (const { profile, activities } of wallets) {
+    protocols.set(profile.address, getProtocols(activities));
+    counterparties.set(profile.address, getCounterparties(activities));
+  }
+
+  return {
+    wallets: wallets.map(({ profile, patterns, recommendations, activities }) => ({
+      profile,
+      patterns,
+      recommendations,
+      activityTypes: countActivityTypes(activities),
+      counterpartyCount: counterparties.get(profile.address)?.size || 0,
+    })),
+    sharedProtocols: findShared(protocols),
+    sharedCounterparties: findShared(counterparties),
+    uniqueProtocols: findUnique(protocols),
+    uniqueCounterparties: findUnique(counterparties),
+  };
+}
+
+/**
+ * Known protocols the wallet used, leaving out core programs every wallet touches
+ */
+function getProtocols(activities: WalletActivity[]): Set<string> {
+  const ids = new Set<string>();
+  for (const activity of activities) {
+    for (const id of activity.protocols || []) {
+      if (protocolRegistry.get(id)?.category !== "core") ids.add(id);
+    }
+  }
+  return ids;
+}
+
+function getCounterparties(activities: WalletActivity[]): Set<string> {
+  return new Set(
+    activities
+      .filter((activity) => activity.success)
+      .flatMap((activity) => activity.counterparties || [])
+      .map((transfer) => transfer.address)
+  );
+}
+
+function countActivityTypes(
+  activities: WalletActivity[]
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const activity of activities) {
+    counts[activity.type] = (counts[activity.type] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Items held by at least two wallets, most widely shared first
+ */
+function findShared(itemsByWallet: Map<string, Set<string>>): SharedItem[] {
+  const walletsByItem = new Map<string, string[]>();
+  itemsByWallet.forEach((items, wallet) => {
+    items.forEach((item) => {
+      walletsByItem.set(item, [...(walletsByItem.get(item) || []), wallet]);
+    });
+  });
+
+  return Array.from(walletsByItem.entries())
+    .filter(([, holders]) => holders.length > 1)
+    .map(([id, holders]) => ({ id, wallets: holders }))
+    .sort((a, b) => b.wallets.length - a.wallets.length);
+}
+
+function findUnique(
+  itemsByWallet: Map<string, Set<string>>
+): Record<string, string[]> {
+  const unique: Record<string, string[]> = {};
+  itemsByWallet.forEach((items, wallet) => {
+    unique[wallet] = Array.from(items).filter((item) =>
+      Array.from(itemsByWallet.entries()).every(
+        ([other, otherItems]) => other === wallet || !otherItems.has(item)
+      )
+    );
+  });
+  return unique;
+}
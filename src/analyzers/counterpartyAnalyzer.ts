@@ -0,0 +1,83 @@
+import {
+  WalletActivity,
+  CounterpartySummary,
+  CounterpartyAmount,
+} from "../types/interfaces";
+import { addressLabels } from "../services/labels";
+
+/**
+ * Aggregates the wallet's direct transfers by counterparty address
+ * @param activities - Wallet activities with counterparty transfers
+ * @returns Counterparties ranked by the number of transactions with the wallet
+ */
+export function summarizeCounterparties(
+  activities: WalletActivity[]
+): CounterpartySummary[] {
+  const summaries = new Map<
+    string,
+    Omit<CounterpartySummary, "amounts"> & {
+      amounts: Map<string, CounterpartyAmount>;
+    }
+  >();
+
+  for (const activity of activities) {
+    if (!activity.success) continue;
+
+    // Count each transaction once per counterparty and direction
+    const seen = new Set<string>();
+    for (const transfer of activity.counterparties || []) {
+      let summary = summaries.get(transfer.address);
+      if (!summary) {
+        summary = {
+          address: transfer.address,
+          ...addressLabels.resolve(transfer.address),
+          transactionCount: 0,
+          sentCount: 0,
+          receivedCount: 0,
+          amounts: new Map(),
+          firstSeen: activity.timestamp,
+          lastSeen: activity.timestamp,
+        };
+        summaries.set(transfer.address, summary);
+      }
+
+      if (!seen.has(transfer.address)) {
+        summary.transactionCount++;
+        summary.firstSeen = Math.min(summary.firstSeen, activity.timestamp);
+        summary.lastSeen = Math.max(summary.lastSeen, activity.timestamp);
+      }
+      const directionKey = `${transfer.address}:${transfer.direction}`;
+      if (!seen.has(directionKey)) {
+        if (transfer.direction === "out") summary.sentCount++;
+        else summary.receivedCount++;
+      }
+      seen.add(transfer.address);
+      seen.add(directionKey);
+
+      let amount = summary.amounts.get(transfer.mint);
+      if (!amount) {
+        amount = {
+          mint: transfer.mint,
+          symbol: transfer.symbol,
+          sent: 0,
+          received: 0,
+        };
+        summary.amounts.set(transfer.mint, amount);
+      }
+      if (transfer.direction === "out") amount.sent += transfer.amount;
+      else amount.received += transfer.amount;
+    }
+  }
+
+  return Array.from(summaries.values())
+    .map((summary) => ({
+      ...summary,
+      amounts: Array.from(summary.amounts.values()).sort(
+        (a, b) => b.sent + b.received - (a.sent + a.received)
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        b.transactionCount - a.transactionCount || b.lastSeen - a.lastSeen
+    );
+}
@@ -1,138 +1,90 @@
-import { WalletActivity, DeFiPosition } from "../types/interfaces";
+import { WalletActivity, DeFiPosition, TokenHolding } from "../types/interfaces";
 import { walletCache } from "../utils/cache";
-import { identifyProtocol } from "../services/transaction";
-
-const APY_RANGES = {
-  STAKING: { min: 5.0, max: 8.0 },
-  LENDING: { min: 3.0, max: 7.0 },
-  LIQUIDITY: { min: 8.0, max: 12.0 },
-};
-
-const ONE_DAY_MS = 24 * 60 * 60 * 1000;
-
+import { readOnChainPositions } from "../services/positions";
+import { fetchWalletHoldings } from "../services/holdings";
+import { getSolUsdPrice } from "../services/price";
+import { attachApys } from "../services/apy";
+import { AGGREGATE_PROTOCOL } from "../services/protocolRegistry";
+import { CACHE_CONFIG } from "../config/constants";
+
+/**
+ * Reads the wallet's current DeFi positions from chain state and adds
+ * statistics inferred from its activity history
+ * @param publicKey - Wallet address
+ * @param holdings - Current holdings, fetched when not provided
+ * @returns Positions tagged with whether they were read on-chain or inferred
+ */
 export async function analyzeDeFiPositions(
-  publicKey: string
+  publicKey: string,
+  holdings?: TokenHolding[]
 ): Promise<DeFiPosition[]> {
   // Check cache first
   const cachedData = walletCache.get(publicKey);
-  if (cachedData?.defiPositions) {
+  if (
+    cachedData?.defiPositions &&
+    Date.now() - (cachedData.defiPositionsUpdated || 0) < CACHE_CONFIG.maxAge
+  ) {
     return cachedData.defiPositions;
   }
 
-  const activities = cachedData?.activities || [];
+  const walletHoldings = holdings || (await fetchWalletHoldings(publicKey));
+  const positions = await readOnChainPositions(publicKey, walletHoldings);
 
-  // Only process successful activities
-  const successfulActivities = activities.filter(
-    (activity) => activity.success
+  // Add aggregate statistics inferred from successful trading activity
+  const tradingPosition = inferTradingPosition(
+    walletCache.getHistory(publicKey)
   );
-
-  if (successfulActivities.length === 0) {
-    return [];
+  if (tradingPosition) {
+    positions.push(tradingPosition);
   }
 
-  const positions: DeFiPosition[] = [
-    ...processStakingPositions(successfulActivities),
-    ...processTradingPositions(successfulActivities),
-    ...processLendingPositions(successfulActivities),
-    ...processLiquidityPositions(successfulActivities),
-  ];
-
-  // Add aggregate statistics if we have trading activity
-  const swapActivities = getActivitiesByType(successfulActivities, "Swap");
-  if (swapActivities.length > 0) {
-    const totalVolume = calculateTotalValue(swapActivities);
-    positions.push(createAggregatePosition(totalVolume));
-  }
+  await attachPositionUsdValues(positions);
+  await attachApys(positions);
 
   // Update cache
   if (cachedData) {
-    walletCache.set(publicKey, {
-      ...cachedData,
+    walletCache.update(publicKey, {
       defiPositions: positions,
+      defiPositionsUpdated: Date.now(),
     });
   }
 
   return positions;
 }
 
-function processStakingPositions(activities: WalletActivity[]): DeFiPosition[] {
-  return getActivitiesByType(activities, "Staking").map((activity) => ({
-    protocol: identifyProtocol(activity.programId),
-    type: "Staking",
-    tokenA: activity.token,
-    value: activity.value,
-    apy: generateRandomApy(APY_RANGES.STAKING),
-    timestamp: activity.timestamp,
-  }));
-}
-
-function processTradingPositions(activities: WalletActivity[]): DeFiPosition[] {
-  const positions: DeFiPosition[] = [];
-
-  // Get all swap activities or FLUXBEAM activities
-  const swapActivities = activities.filter(
-    (activity) =>
-      activity.type === "Swap" ||
-      identifyProtocol(activity.programId) === "FLUXBEAM"
-  );
-
-  if (swapActivities.length === 0) {
-    return positions;
-  }
-
-  // Create a position for recent trading activity (last 24 hours)
-  const now = Date.now();
-  const recentSwaps = swapActivities.filter(
-    (activity) => now - activity.timestamp < ONE_DAY_MS
-  );
-
-  if (recentSwaps.length > 0) {
-    positions.push({
-      protocol: "FLUXBEAM",
-      type: "Trading",
-      value: calculateTotalValue(recentSwaps),
-      timestamp: Math.max(...recentSwaps.map((a) => a.timestamp)),
-    });
+async function attachPositionUsdValues(
+  positions: DeFiPosition[]
+): Promise<void> {
+  for (const position of positions) {
+    if (position.value === undefined || position.usdValue !== undefined)
+      continue;
+    const solPrice = await getSolUsdPrice(position.timestamp);
+    position.usdValue =
+      solPrice !== undefined ? position.value * solPrice : undefined;
   }
-
-  return positions;
 }
 
-function processLendingPositions(activities: WalletActivity[]): DeFiPosition[] {
-  return getActivitiesByType(activities, "Lending").map((activity) => ({
-    protocol: identifyProtocol(activity.programId),
-    type: "Lending",
-    tokenA: activity.token,
-    value: activity.value,
-    apy: generateRandomApy(APY_RANGES.LENDING),
-    timestamp: activity.timestamp,
-  }));
-}
-
-function processLiquidityPositions(
+/**
+ * Summarizes successful swaps into an aggregate trading position
+ * @param activities - Activity history to summarize
+ * @returns The inferred position, or undefined when there were no swaps
+ */
+export function inferTradingPosition(
   activities: WalletActivity[]
-): DeFiPosition[] {
-  const lpProtocols = ["RAYDIUM_SWAP", "ORCA_SWAP"];
-
-  return activities
-    .filter(
-      (activity) =>
-        activity.type === "Account Creation" &&
-        lpProtocols.includes(identifyProtocol(activity.programId))
-    )
-    .map((activity) => ({
-      protocol: identifyProtocol(activity.programId),
-      type: "Liquidity",
-      value: activity.value,
-      timestamp: activity.timestamp,
-      apy: generateRandomApy(APY_RANGES.LIQUIDITY),
-    }));
+): DeFiPosition | undefined {
+  const swapActivities = getActivitiesByType(
+    activities.filter((activity) => activity.success),
+    "Swap"
+  );
+  if (swapActivities.length === 0) return undefined;
+  return createAggregatePosition(calculateTotalValue(swapActivities));
 }
 
 function createAggregatePosition(totalVolume: number): DeFiPosition {
   return {
-    protocol: "Aggregate",
+    protocol: AGGREGATE_PROTOCOL,
     type: "Trading Statistics",
+    source: "inferred",
     value: totalVolume,
     tokenA: "Multiple",
     timestamp: Date.now(),
@@ -149,7 +101,3 @@ function getActivitiesByType(
 function calculateTotalValue(activities: WalletActivity[]): number {
   return activities.reduce((sum, activity) => sum + (activity.value || 0), 0);
 }
-
-function generateRandomApy(range: { min: number; max: number }): number {
-  return range.min + Math.random() * (range.max - range.min);
-}
@@ -0,0 +1,161 @@
+import { NATIVE_MINT } from "@solana/spl-token";
+import {
+  WalletActivity,
+  TokenHolding,
+  HistoryInterval,
+  PortfolioHistory,
+  PortfolioSnapshot,
+} from "../types/interfaces";
+import { priceProvider } from "../services/price";
+import { getTokenSymbol } from "../services/holdings";
+import { TIME_PERIODS } from "../config/constants";
+
+const SOL_MINT = NATIVE_MINT.toString();
+
+// Keeps hourly series over long ranges from producing unbounded output
+export const MAX_HISTORY_BUCKETS = 1000;
+
+// Balances below this are rounding noise
+const BALANCE_EPSILON = 1e-9;
+
+const INTERVAL_MS: Record<HistoryInterval, number> = {
+  daily: TIME_PERIODS.ONE_DAY,
+  hourly: TIME_PERIODS.ONE_HOUR,
+};
+
+/**
+ * Reconstructs per-token balances at the end of each bucket by starting from
+ * current holdings and undoing the wallet's balance changes newest first.
+ * SOL balances also add back the network fees the wallet paid.
+ *
+ * @param address - Wallet address
+ * @param activities - Every activity from the start of the range until now
+ * @param holdings - Current holdings
+ * @param options - Bucket interval, range, and whether the activities reach back to the range start
+ * @returns Snapshots oldest first, valued in USD where prices are available
+ */
+export async function reconstructPortfolioHistory(
+  address: string,
+  activities: WalletActivity[],
+  holdings: TokenHolding[],
+  options: {
+    interval: HistoryInterval;
+    start: number;
+    end: number;
+    complete: boolean;
+  }
+): Promise<PortfolioHistory> {
+  const { interval, start, end, complete } = options;
+  const bucketEnds = getBucketEnds(start, end, INTERVAL_MS[interval]);
+  if (bucketEnds.length > MAX_HISTORY_BUCKETS) {
+    throw new Error(
+      `Range spans ${bucketEnds.length} ${interval} buckets; the maximum is ${MAX_HISTORY_BUCKETS}`
+    );
+  }
+
+  const balances = new Map<string, number>();
+  for (const holding of holdings) {
+    balances.set(holding.mint, (balances.get(holding.mint) || 0) + holding.amount);
+  }
+
+  const ordered = activities
+    .slice()
+    .sort((a, b) => b.timestamp - a.timestamp);
+  const rawSnapshots: Array<{ timestamp: number; balances: Map<string, number> }> = [];
+  let next = 0;
+
+  for (const bucketEnd of bucketEnds.slice().reverse()) {
+    while (next < ordered.length && ordered[next].timestamp > bucketEnd) {
+      undoActivity(balances, ordered[next]);
+      next++;
+    }
+    rawSnapshots.unshift({ timestamp: bucketEnd, balances: new Map(balances) });
+  }
+
+  let negativeBalances = 0;
+  const snapshots: PortfolioSnapshot[] = [];
+  const mints = new Set<string>();
+
+  for (const raw of rawSnapshots) {
+    const snapshotBalances: Record<string, number> = {};
+    raw.balances.forEach((amount, mint) => {
+      if (amount < -BALANCE_EPSILON) negativeBalances++;
+      if (amount > BALANCE_EPSILON) {
+        snapshotBalances[mint] = amount;
+        mints.add(mint);
+      }
+    });
+    snapshots.push(await valueSnapshot(raw.timestamp, snapshotBalances));
+  }
+
+  const warnings: string[] = [];
+  if (!complete) {
+    warnings.push(
+      "The fetched history doesn't reach the start of the range; earlier balances may be inaccurate."
+    );
+  }
+  if (negativeBalances > 0) {
+    warnings.push(
+      "Some reconstructed balances went below zero and were shown as 0; activity is likely missing from the history."
+    );
+  }
+
+  return {
+    address,
+    interval,
+    start: bucketEnds[0] - INTERVAL_MS[interval],
+    end: bucketEnds[bucketEnds.length - 1],
+    tokens: Array.from(mints).map((mint) => ({ mint, symbol: getTokenSymbol(mint) })),
+    snapshots,
+    complete,
+    warnings,
+  };
+}
+
+/**
+ * Bucket boundaries aligned to UTC hours or days, the last one capped at now
+ */
+function getBucketEnds(start: number, end: number, step: number): number[] {
+  const now = Date.now();
+  const ends: number[] = [];
+  for (
+    let bucketEnd = Math.floor(start / step) * step + step;
+    bucketEnd - step < Math.min(end, now);
+    bucketEnd += step
+  ) {
+    ends.push(Math.min(bucketEnd, now));
+  }
+  return ends;
+}
+
+function undoActivity(
+  balances: Map<string, number>,
+  activity: WalletActivity
+): void {
+  for (const movement of activity.tokenMovements || []) {
+    balances.set(movement.mint, (balances.get(movement.mint) || 0) - movement.amount);
+  }
+  // SOL movements exclude the fee, which also left the wallet
+  if (activity.fee) {
+    balances.set(SOL_MINT, (balances.get(SOL_MINT) || 0) + activity.fee);
+  }
+}
+
+async function valueSnapshot(
+  timestamp: number,
+  balances: Record<string, number>
+): Promise<PortfolioSnapshot> {
+  let valueUsd: number | undefined;
+  const unpricedMints: string[] = [];
+
+  for (const [mint, amount] of Object.entries(balances)) {
+    const point = await priceProvider.getHistoricalPrice(mint, timestamp);
+    if (point) {
+      valueUsd = (valueUsd || 0) + amount * point.price;
+    } else {
+      unpricedMints.push(mint);
+    }
+  }
+
+  return { timestamp, balances, valueUsd, unpricedMints };
+}
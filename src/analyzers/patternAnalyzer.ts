@@ -1,4 +1,5 @@
 import { WalletActivity, TransactionPattern } from "../types/interfaces";
+import { detectScamActivity, summarizeScamPatterns } from "./scamAnalyzer";
 
 // Define constants
 const MINIMUM_TRANSACTIONS = 5;
@@ -49,14 +50,21 @@ const PATTERNS = {
 /**
  * Analyzes transaction activities to identify user behavior patterns
  * @param activities - List of wallet activities
+ * @param walletAddress - Analyzed wallet, checked for lookalike addresses
  * @returns Array of identified transaction patterns
  */
 export function analyzeTransactionPatterns(
-  activities: WalletActivity[]
+  activities: WalletActivity[],
+  walletAddress?: string
 ): TransactionPattern[] {
+  // Scam activity is worth reporting however short the history is
+  const scamPatterns = summarizeScamPatterns(
+    detectScamActivity(activities, walletAddress)
+  );
+
   // Early return if insufficient data
   if (activities.length < MINIMUM_TRANSACTIONS) {
-    return [PATTERNS.INSUFFICIENT_DATA];
+    return [PATTERNS.INSUFFICIENT_DATA, ...scamPatterns];
   }
 
   // Group activities by type for efficiency
@@ -77,7 +85,10 @@ export function analyzeTransactionPatterns(
   }
 
   // Return patterns or default if none detected
-  return patterns.length > 0 ? patterns : [PATTERNS.GENERAL];
+  return [
+    ...(patterns.length > 0 ? patterns : [PATTERNS.GENERAL]),
+    ...scamPatterns,
+  ];
 }
 
 /**
@@ -0,0 +1,305 @@
+import {
+  WalletActivity,
+  TokenHolding,
+  CostBasisMethod,
+  TaxLot,
+  RealizedEvent,
+  TokenPnL,
+  PnLReport,
+} from "../types/interfaces";
+import { priceProvider } from "../services/price";
+import { getTokenSymbol } from "../services/holdings";
+import { COST_BASIS_METHOD } from "../config/constants";
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ["fifo", "lifo", "average"];
+
+// Lot amounts below this are rounding noise left by partial matches
+const LOT_EPSILON = 1e-9;
+
+interface TokenLedger {
+  mint: string;
+  symbol: string;
+  lots: TaxLot[];
+  acquired: number;
+  disposed: number;
+  realizedPnlUsd: number;
+}
+
+interface LotMatch {
+  amount: number;
+  costUsd?: number;
+  acquiredAt?: number;
+  matched: boolean;
+}
+
+/**
+ * Returns the requested cost basis method, falling back to COST_BASIS_METHOD
+ * and then FIFO when the value isn't recognised
+ */
+export function resolveCostBasisMethod(method?: string): CostBasisMethod {
+  const candidate = (method || COST_BASIS_METHOD).toLowerCase();
+  return COST_BASIS_METHODS.find((m) => m === candidate) || "fifo";
+}
+
+/**
+ * Builds tax lots from the wallet's acquisitions and matches disposals against
+ * them to compute realized and unrealized PnL per token.
+ *
+ * Swaps dispose of the input token and acquire the output token at the swap's
+ * USD value. Incoming transfers are acquisitions at the market price when
+ * received; outgoing transfers remove lots without realizing a gain. Network
+ * fees are not added to cost basis.
+ *
+ * @param activities - Wallet activities, in any order
+ * @param holdings - Current holdings, used to flag balances acquired before the analyzed history
+ * @param method - Lot matching method
+ * @returns Per-token and total PnL with every realized disposal
+ */
+export async function calculateWalletPnL(
+  activities: WalletActivity[],
+  holdings: TokenHolding[],
+  method: CostBasisMethod
+): Promise<PnLReport> {
+  const ledgers = new Map<string, TokenLedger>();
+  const disposals: RealizedEvent[] = [];
+  let unpricedAcquisitions = 0;
+
+  const getLedger = (mint: string, symbol?: string): TokenLedger => {
+    let ledger = ledgers.get(mint);
+    if (!ledger) {
+      ledger = {
+        mint,
+        symbol: symbol || getTokenSymbol(mint),
+        lots: [],
+        acquired: 0,
+        disposed: 0,
+        realizedPnlUsd: 0,
+      };
+      ledgers.set(mint, ledger);
+    }
+    return ledger;
+  };
+
+  const acquire = (
+    ledger: TokenLedger,
+    amount: number,
+    costUsd: number | undefined,
+    activity: WalletActivity
+  ) => {
+    if (costUsd === undefined) unpricedAcquisitions++;
+    ledger.acquired += amount;
+    ledger.lots.push({
+      mint: ledger.mint,
+      amount,
+      costUsd,
+      acquiredAt: activity.timestamp,
+      signature: activity.signature,
+    });
+  };
+
+  const ordered = activities
+    .filter((activity) => activity.success)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const activity of ordered) {
+    if (activity.swap) {
+      const { swap } = activity;
+      const input = getLedger(swap.inputMint, swap.inputSymbol);
+      input.disposed += swap.inputAmount;
+
+      for (const match of takeLots(input, swap.inputAmount, method)) {
+        const proceedsUsd =
+          swap.usdValue !== undefined
+            ? (swap.usdValue * match.amount) / swap.inputAmount
+            : undefined;
+        const gainUsd =
+          proceedsUsd !== undefined && match.costUsd !== undefined
+            ? proceedsUsd - match.costUsd
+            : undefined;
+        if (gainUsd !== undefined) input.realizedPnlUsd += gainUsd;
+
+        disposals.push({
+          signature: activity.signature,
+          timestamp: activity.timestamp,
+          mint: input.mint,
+          symbol: input.symbol,
+          amount: match.amount,
+          proceedsUsd,
+          costBasisUsd: match.costUsd,
+          gainUsd,
+          acquiredAt: match.acquiredAt,
+          matched: match.matched,
+        });
+      }
+
+      acquire(getLedger(swap.outputMint, swap.outputSymbol), swap.outputAmount, swap.usdValue, activity);
+      continue;
+    }
+
+    if (activity.type !== "Transfer") continue;
+
+    for (const movement of activity.tokenMovements || []) {
+      const ledger = getLedger(movement.mint, movement.symbol);
+      const amount = Math.abs(movement.amount);
+
+      if (movement.direction === "in") {
+        const price = await priceProvider.getHistoricalPrice(movement.mint, activity.timestamp);
+        acquire(ledger, amount, price ? amount * price.price : undefined, activity);
+      } else {
+        takeLots(ledger, amount, method);
+      }
+    }
+  }
+
+  const tokens = await Promise.all(
+    Array.from(ledgers.values()).map((ledger) => summarizeLedger(ledger))
+  );
+
+  const warnings: string[] = [];
+  const unmatched = disposals.filter((event) => !event.matched).length;
+  if (unmatched > 0) {
+    warnings.push(
+      `${unmatched} disposal(s) exceeded the lots found in the analyzed history; their cost basis is unknown.`
+    );
+  }
+  if (unpricedAcquisitions > 0) {
+    warnings.push(
+      `${unpricedAcquisitions} acquisition(s) had no USD price; gains on those lots are not included.`
+    );
+  }
+  const untracked = holdings.filter((holding) => {
+    const remaining = ledgers.get(holding.mint)?.lots.reduce((sum, lot) => sum + lot.amount, 0) || 0;
+    return holding.amount - remaining > LOT_EPSILON && holding.amount > 0;
+  });
+  if (untracked.length > 0) {
+    warnings.push(
+      `Part of the balance of ${untracked
+        .map((holding) => holding.symbol)
+        .join(", ")} was acquired before the analyzed history and has no cost basis.`
+    );
+  }
+
+  const openTokens = tokens.filter((token) => token.remaining > LOT_EPSILON);
+  const unpricedOpen = openTokens.filter((token) => token.unrealizedPnlUsd === undefined);
+  if (unpricedOpen.length > 0) {
+    warnings.push(
+      `No current price or cost basis for open lots of ${unpricedOpen
+        .map((token) => token.symbol)
+        .join(", ")}; they are excluded from unrealized PnL.`
+    );
+  }
+
+  // Open-lot totals only cover tokens with both a cost basis and a current value
+  const valued = openTokens.filter((token) => token.unrealizedPnlUsd !== undefined);
+  const sumValued = (value: (token: TokenPnL) => number | undefined) =>
+    valued.length ? valued.reduce((sum, token) => sum + (value(token) || 0), 0) : undefined;
+
+  return {
+    method,
+    tokens: tokens.sort(
+      (a, b) =>
+        Math.abs(b.realizedPnlUsd + (b.unrealizedPnlUsd || 0)) -
+        Math.abs(a.realizedPnlUsd + (a.unrealizedPnlUsd || 0))
+    ),
+    disposals,
+    totalRealizedUsd: tokens.reduce((sum, token) => sum + token.realizedPnlUsd, 0),
+    totalUnrealizedUsd: sumValued((token) => token.unrealizedPnlUsd),
+    totalCostBasisUsd: sumValued((token) => token.costBasisUsd),
+    totalCurrentValueUsd: sumValued((token) => token.currentValueUsd),
+    from: ordered[0]?.timestamp || 0,
+    to: ordered[ordered.length - 1]?.timestamp || 0,
+    activityCount: ordered.length,
+    warnings,
+  };
+}
+
+/**
+ * Removes `amount` from the ledger's lots using the given method
+ * @returns The portions taken from each lot, plus an unmatched portion when
+ * the lots run out
+ */
+function takeLots(
+  ledger: TokenLedger,
+  amount: number,
+  method: CostBasisMethod
+): LotMatch[] {
+  const matches: LotMatch[] = [];
+  let remaining = amount;
+
+  if (method === "average") {
+    const total = ledger.lots.reduce((sum, lot) => sum + lot.amount, 0);
+    const taken = Math.min(total, remaining);
+    if (taken > LOT_EPSILON) {
+      const share = taken / total;
+      const costs = ledger.lots.map((lot) => lot.costUsd);
+      matches.push({
+        amount: taken,
+        costUsd: costs.includes(undefined)
+          ? undefined
+          : (costs as number[]).reduce((sum, cost) => sum + cost, 0) * share,
+        acquiredAt: Math.min(...ledger.lots.map((lot) => lot.acquiredAt)),
+        matched: true,
+      });
+      for (const lot of ledger.lots) {
+        lot.amount -= lot.amount * share;
+        lot.costUsd = lot.costUsd !== undefined ? lot.costUsd * (1 - share) : undefined;
+      }
+      remaining -= taken;
+    }
+  } else {
+    while (remaining > LOT_EPSILON && ledger.lots.length > 0) {
+      const lot = method === "fifo" ? ledger.lots[0] : ledger.lots[ledger.lots.length - 1];
+      const taken = Math.min(lot.amount, remaining);
+      const share = taken / lot.amount;
+
+      matches.push({
+        amount: taken,
+        costUsd: lot.costUsd !== undefined ? lot.costUsd * share : undefined,
+        acquiredAt: lot.acquiredAt,
+        matched: true,
+      });
+      lot.amount -= taken;
+      lot.costUsd = lot.costUsd !== undefined ? lot.costUsd * (1 - share) : undefined;
+      remaining -= taken;
+
+      if (lot.amount <= LOT_EPSILON) {
+        ledger.lots.splice(ledger.lots.indexOf(lot), 1);
+      }
+    }
+  }
+
+  ledger.lots = ledger.lots.filter((lot) => lot.amount > LOT_EPSILON);
+
+  if (remaining > LOT_EPSILON) {
+    matches.push({ amount: remaining, matched: false });
+  }
+  return matches;
+}
+
+async function summarizeLedger(ledger: TokenLedger): Promise<TokenPnL> {
+  const remaining = ledger.lots.reduce((sum, lot) => sum + lot.amount, 0);
+  const costs = ledger.lots.map((lot) => lot.costUsd);
+  const costBasisUsd = costs.includes(undefined)
+    ? undefined
+    : (costs as number[]).reduce((sum, cost) => sum + cost, 0);
+
+  const spot = remaining > LOT_EPSILON ? await priceProvider.getSpotPrice(ledger.mint) : undefined;
+  const currentValueUsd =
+    remaining <= LOT_EPSILON ? 0 : spot ? remaining * spot.price : undefined;
+
+  return {
+    mint: ledger.mint,
+    symbol: ledger.symbol,
+    acquired: ledger.acquired,
+    disposed: ledger.disposed,
+    remaining,
+    costBasisUsd,
+    currentPrice: spot?.price,
+    currentValueUsd,
+    realizedPnlUsd: ledger.realizedPnlUsd,
+    unrealizedPnlUsd:
+      currentValueUsd !== undefined && costBasisUsd !== undefined
+        ? currentValueUsd - costBasisUsd
+        : undefined,
+  };
+}
@@ -0,0 +1,224 @@
+import { NATIVE_MINT } from "@solana/spl-token";
+import {
+  WalletActivity,
+  TokenHolding,
+  TokenMovement,
+  TokenFlow,
+  PortfolioFlows,
+  CounterpartyTransfer,
+} from "../types/interfaces";
+import { getTokenSymbol } from "../services/holdings";
+import { getPrimaryToken } from "../services/transaction";
+
+const SOL_MINT = NATIVE_MINT.toString();
+
+// Net movements below this are rounding noise
+const MOVEMENT_EPSILON = 1e-9;
+
+/**
+ * Merges the activity of several wallets into one stream.
+ *
+ * A transaction seen by more than one member becomes a single activity whose
+ * token movements are the members' combined balance changes, so amounts moved
+ * between members cancel out. Transfers with a member whose fetched history
+ * doesn't include the transaction are netted out the same way. When nothing
+ * is left after netting, the activity is an "Internal Transfer" with no volume.
+ *
+ * @param memberActivities - Activities keyed by member wallet address
+ * @returns Merged activities, newest first, and the portfolio's external and internal flows
+ */
+export function mergePortfolioActivities(
+  memberActivities: Map<string, WalletActivity[]>
+): { activities: WalletActivity[]; flows: PortfolioFlows } {
+  const bySignature = new Map<string, Array<{ wallet: string; activity: WalletActivity }>>();
+  memberActivities.forEach((activities, wallet) => {
+    for (const activity of activities) {
+      const entries = bySignature.get(activity.signature) || [];
+      entries.push({ wallet, activity });
+      bySignature.set(activity.signature, entries);
+    }
+  });
+
+  const flows = new Map<string, TokenFlow>();
+  const getFlow = (mint: string): TokenFlow => {
+    let flow = flows.get(mint);
+    if (!flow) {
+      flow = { mint, symbol: getTokenSymbol(mint), inflow: 0, outflow: 0, internal: 0 };
+      flows.set(mint, flow);
+    }
+    return flow;
+  };
+
+  const activities: WalletActivity[] = [];
+  let internalTransfers = 0;
+  let sharedTransactions = 0;
+
+  const members = new Set(memberActivities.keys());
+
+  bySignature.forEach((entries) => {
+    let merged =
+      entries.length === 1
+        ? { ...entries[0].activity, wallets: [entries[0].wallet] }
+        : mergeSharedActivity(entries, getFlow);
+
+    const transfers = entries.flatMap(({ activity }) => activity.counterparties || []);
+    // Transfers with a member whose history didn't include this transaction
+    // weren't netted by the merge above
+    const seen = new Set(entries.map(({ wallet }) => wallet));
+    const unseenMemberTransfers = transfers.filter(
+      (transfer) => members.has(transfer.address) && !seen.has(transfer.address)
+    );
+    if (unseenMemberTransfers.length > 0) {
+      merged = netMemberTransfers(merged, unseenMemberTransfers, getFlow);
+    }
+    // Other members aren't counterparties of the portfolio
+    merged.counterparties = transfers.filter((transfer) => !members.has(transfer.address));
+
+    if (entries.length > 1) sharedTransactions++;
+    if (merged.type === "Internal Transfer") internalTransfers++;
+
+    if (merged.success) {
+      for (const movement of merged.tokenMovements || []) {
+        const flow = getFlow(movement.mint);
+        if (movement.direction === "in") flow.inflow += movement.amount;
+        else flow.outflow += Math.abs(movement.amount);
+      }
+    }
+
+    activities.push(merged);
+  });
+
+  return {
+    activities: activities.sort((a, b) => b.timestamp - a.timestamp),
+    flows: {
+      tokens: Array.from(flows.values()).sort(
+        (a, b) => b.inflow + b.outflow + b.internal - (a.inflow + a.outflow + a.internal)
+      ),
+      internalTransfers,
+      sharedTransactions,
+    },
+  };
+}
+
+/**
+ * Sums token holdings across member wallets by mint
+ */
+export function mergeHoldings(memberHoldings: TokenHolding[][]): TokenHolding[] {
+  const byMint = new Map<string, TokenHolding>();
+
+  for (const holding of memberHoldings.flat()) {
+    const existing = byMint.get(holding.mint);
+    if (!existing) {
+      byMint.set(holding.mint, { ...holding, tokenAccount: undefined });
+      continue;
+    }
+    existing.amount += holding.amount;
+    existing.isNative = existing.isNative || holding.isNative;
+    if (holding.usdValue !== undefined) {
+      existing.usdValue = (existing.usdValue || 0) + holding.usdValue;
+    }
+    if (holding.reclaimableRent !== undefined) {
+      existing.reclaimableRent = (existing.reclaimableRent || 0) + holding.reclaimableRent;
+    }
+  }
+
+  return Array.from(byMint.values()).sort((a, b) => {
+    if (a.isNative !== b.isNative) return a.isNative ? -1 : 1;
+    return b.amount - a.amount;
+  });
+}
+
+function mergeSharedActivity(
+  entries: Array<{ wallet: string; activity: WalletActivity }>,
+  getFlow: (mint: string) => TokenFlow
+): WalletActivity {
+  const base = entries[0].activity;
+  const net = new Map<string, number>();
+  const grossIn = new Map<string, number>();
+  const grossOut = new Map<string, number>();
+
+  for (const { activity } of entries) {
+    for (const movement of activity.tokenMovements || []) {
+      net.set(movement.mint, (net.get(movement.mint) || 0) + movement.amount);
+      const gross = movement.direction === "in" ? grossIn : grossOut;
+      gross.set(movement.mint, (gross.get(movement.mint) || 0) + Math.abs(movement.amount));
+    }
+  }
+
+  // Whatever left one member and arrived at another stayed inside the portfolio
+  if (base.success) {
+    grossIn.forEach((amount, mint) => {
+      const internal = Math.min(amount, grossOut.get(mint) || 0);
+      if (internal > MOVEMENT_EPSILON) getFlow(mint).internal += internal;
+    });
+  }
+
+  const hadMovements = grossIn.size > 0 || grossOut.size > 0;
+  const merged: WalletActivity = {
+    ...base,
+    swap: entries.find(({ activity }) => activity.swap)?.activity.swap,
+    fee: entries.reduce((sum, { activity }) => sum + (activity.fee || 0), 0),
+    wallets: entries.map(({ wallet }) => wallet),
+  };
+
+  return withNetMovements(merged, net, hadMovements);
+}
+
+/**
+ * Removes amounts exchanged with members that weren't merged into the
+ * activity from its token movements and counts them as internal flow
+ */
+function netMemberTransfers(
+  activity: WalletActivity,
+  transfers: CounterpartyTransfer[],
+  getFlow: (mint: string) => TokenFlow
+): WalletActivity {
+  const net = new Map<string, number>();
+  for (const movement of activity.tokenMovements || []) {
+    net.set(movement.mint, (net.get(movement.mint) || 0) + movement.amount);
+  }
+
+  for (const transfer of transfers) {
+    const amount = transfer.direction === "in" ? transfer.amount : -transfer.amount;
+    net.set(transfer.mint, (net.get(transfer.mint) || 0) - amount);
+    if (activity.success) getFlow(transfer.mint).internal += transfer.amount;
+  }
+
+  return withNetMovements(activity, net, (activity.tokenMovements || []).length > 0);
+}
+
+/**
+ * Replaces the activity's token movements with the netted amounts; an
+ * activity whose movements all cancelled out becomes an internal transfer.
+ * Like any activity's value, the netted value is the SOL balance change
+ * including the fee. The result is marked `netted` and left unpriced.
+ */
+function withNetMovements(
+  activity: WalletActivity,
+  net: Map<string, number>,
+  hadMovements: boolean
+): WalletActivity {
+  const tokenMovements: TokenMovement[] = Array.from(net.entries())
+    .filter(([, amount]) => Math.abs(amount) > MOVEMENT_EPSILON)
+    .map(([mint, amount]) => ({
+      mint,
+      symbol: getTokenSymbol(mint),
+      amount,
+      direction: amount > 0 ? ("in" as const) : ("out" as const),
+    }))
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+
+  const isInternal = hadMovements && tokenMovements.length === 0;
+  const solMovement = tokenMovements.find((m) => m.mint === SOL_MINT);
+
+  return {
+    ...activity,
+    type: isInternal ? "Internal Transfer" : activity.type,
+    description: isInternal ? "Transfer between portfolio wallets" : activity.description,
+    value: isInternal ? 0 : Math.abs((solMovement?.amount || 0) - (activity.fee || 0)),
+    usdValue: undefined,
+    token: getPrimaryToken(tokenMovements) || activity.token,
+    tokenMovements,
+    netted: true,
+  };
+}
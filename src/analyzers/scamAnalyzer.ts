@@ -0,0 +1,282 @@
+import { NATIVE_MINT } from "@solana/spl-token";
+import {
+  ScamFinding,
+  ScamFindingKind,
+  TransactionPattern,
+  WalletActivity,
+} from "../types/interfaces";
+import { KNOWN_TOKENS } from "../config/constants";
+import { formatAddress } from "../services/labels";
+
+// Incoming transfers below these amounts are dust
+const DUST_SOL_AMOUNT = 0.001;
+const DUST_TOKEN_AMOUNT = 0.01;
+
+// Lookalikes match the characters wallets show when shortening addresses
+const LOOKALIKE_CHARS = 4;
+
+const SOL_MINT = NATIVE_MINT.toString();
+
+const SCAM_PATTERNS: Record<
+  ScamFindingKind,
+  Omit<TransactionPattern, "description"> & {
+    describe: (count: number, findings: ScamFinding[]) => string;
+  }
+> = {
+  address_poisoning: {
+    patternType: "address_poisoning",
+    confidence: 0.9,
+    describe: (count, findings) =>
+      `${count} address(es) mimic the first and last characters of addresses this wallet uses${
+        findings.some((f) => f.sentTo)
+          ? ", and funds were sent to at least one of them"
+          : ""
+      }. Always check the full address before sending.`,
+  },
+  dust: {
+    patternType: "dusting",
+    confidence: 0.8,
+    describe: (count) =>
+      `${count} unsolicited dust transfer(s) received. Don't copy addresses from these transactions.`,
+  },
+  spam_airdrop: {
+    patternType: "spam_airdrop",
+    confidence: 0.7,
+    describe: (count) =>
+      `${count} unsolicited airdrop(s) of unknown tokens. Don't trade them or visit sites they advertise.`,
+  },
+  unsolicited_nft: {
+    patternType: "unsolicited_nft",
+    confidence: 0.7,
+    describe: (count) =>
+      `${count} NFT(s) received without the wallet signing; these are often phishing lures.`,
+  },
+};
+
+/**
+ * Flags likely scam activity in a wallet's history:
+ * - dust: tiny SOL or token transfers the wallet didn't sign for
+ * - address poisoning: counterparties sharing the first and last characters
+ *   of an address the wallet transacts with (or of the wallet itself)
+ * - spam airdrops: unknown tokens received unsolicited and never used since
+ * - unsolicited NFTs: single zero-decimal tokens received unsolicited
+ *
+ * A transfer is unsolicited when the wallet didn't pay the transaction fee.
+ * @param activities - Wallet activities, with counterparties and token movements
+ * @param walletAddress - Analyzed wallet, also checked for lookalikes
+ * @returns Findings, newest first
+ */
+export function detectScamActivity(
+  activities: WalletActivity[],
+  walletAddress?: string
+): ScamFinding[] {
+  const successful = activities.filter((a) => a.success);
+  const findings = [
+    ...detectLookalikes(successful, walletAddress),
+    ...detectUnsolicitedTransfers(successful),
+  ];
+  return findings.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Summarizes scam findings as transaction patterns, one per kind found
+ * @param findings - Findings from detectScamActivity
+ */
+export function summarizeScamPatterns(
+  findings: ScamFinding[]
+): TransactionPattern[] {
+  return (Object.keys(SCAM_PATTERNS) as ScamFindingKind[])
+    .map((kind) => {
+      const matching = findings.filter((f) => f.kind === kind);
+      if (!matching.length) return undefined;
+
+      // Lookalikes count per address, everything else per transaction
+      const count =
+        kind === "address_poisoning"
+          ? new Set(matching.map((f) => f.address)).size
+          : new Set(matching.map((f) => f.signature)).size;
+      const { describe, ...pattern } = SCAM_PATTERNS[kind];
+      return { ...pattern, description: describe(count, matching) };
+    })
+    .filter((p): p is TransactionPattern => p !== undefined);
+}
+
+/**
+ * One-line description of a finding, e.g. "Dust: 0.000001 SOL from 7xKX…gAsU"
+ */
+export function describeScamFinding(finding: ScamFinding): string {
+  const address = finding.address
+    ? formatAddress(finding.address)
+    : "unknown";
+  const amount =
+    finding.amount !== undefined
+      ? `${finding.amount.toLocaleString("en-US", {
+          maximumFractionDigits: 9,
+        })} ${finding.symbol}`
+      : finding.symbol;
+
+  switch (finding.kind) {
+    case "dust":
+      return `Dust: ${amount} from ${address}`;
+    case "address_poisoning":
+      // Shortened, the two addresses would look identical
+      return `Lookalike address \`${finding.address}\` imitates \`${
+        finding.lookalikeOf
+      }\`${finding.sentTo ? " (funds were sent to it)" : ""}`;
+    case "spam_airdrop":
+      return `Spam airdrop: ${amount}${
+        finding.address ? ` from ${address}` : ""
+      }`;
+    case "unsolicited_nft":
+      return `Unsolicited NFT: ${finding.symbol}${
+        finding.address ? ` from ${address}` : ""
+      }`;
+  }
+}
+
+function lookalikeKey(address: string): string {
+  return `${address.slice(0, LOOKALIKE_CHARS)}…${address.slice(-LOOKALIKE_CHARS)}`;
+}
+
+/**
+ * Groups counterparties by their shortened form. In each group the address
+ * the wallet has sent to most (then transacted with most) is taken as the
+ * real one and the others as lookalikes; any address shortening like the
+ * wallet itself is a lookalike of the wallet.
+ */
+function detectLookalikes(
+  activities: WalletActivity[],
+  walletAddress?: string
+): ScamFinding[] {
+  const stats = new Map<string, { sent: number; total: number }>();
+  for (const activity of activities) {
+    for (const transfer of activity.counterparties || []) {
+      const entry = stats.get(transfer.address) || { sent: 0, total: 0 };
+      entry.total++;
+      if (transfer.direction === "out") entry.sent++;
+      stats.set(transfer.address, entry);
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  stats.forEach((_, address) => {
+    const key = lookalikeKey(address);
+    groups.set(key, [...(groups.get(key) || []), address]);
+  });
+
+  const imitated = new Map<string, string>();
+  groups.forEach((addresses, key) => {
+    if (walletAddress && key === lookalikeKey(walletAddress)) {
+      addresses.forEach((address) => imitated.set(address, walletAddress));
+      return;
+    }
+    if (addresses.length < 2) return;
+
+    const [real, ...lookalikes] = [...addresses].sort((a, b) => {
+      const sa = stats.get(a)!;
+      const sb = stats.get(b)!;
+      return sb.sent - sa.sent || sb.total - sa.total;
+    });
+    lookalikes.forEach((address) => imitated.set(address, real));
+  });
+
+  const findings: ScamFinding[] = [];
+  for (const activity of activities) {
+    const seen = new Set<string>();
+    for (const transfer of activity.counterparties || []) {
+      const real = imitated.get(transfer.address);
+      if (!real || seen.has(transfer.address)) continue;
+      seen.add(transfer.address);
+      findings.push({
+        kind: "address_poisoning",
+        signature: activity.signature,
+        timestamp: activity.timestamp,
+        address: transfer.address,
+        lookalikeOf: real,
+        sentTo: (activity.counterparties || []).some(
+          (t) => t.address === transfer.address && t.direction === "out"
+        ),
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Dust, spam airdrops and NFTs in transactions someone else paid for. Tokens
+ * the wallet later sent, swapped or sold in a transaction it signed aren't
+ * spam.
+ */
+function detectUnsolicitedTransfers(
+  activities: WalletActivity[]
+): ScamFinding[] {
+  const used = new Set<string>();
+  for (const activity of activities) {
+    if (!activity.fee) continue;
+    for (const movement of activity.tokenMovements || []) {
+      if (movement.direction === "out") used.add(movement.mint);
+    }
+  }
+
+  const findings: ScamFinding[] = [];
+  for (const activity of activities) {
+    const movements = activity.tokenMovements || [];
+    if (activity.fee || movements.some((m) => m.direction === "out")) continue;
+
+    const finding = (
+      kind: ScamFindingKind,
+      fields: Partial<ScamFinding>
+    ): ScamFinding => ({
+      kind,
+      signature: activity.signature,
+      timestamp: activity.timestamp,
+      ...fields,
+    });
+
+    const dustMints = new Set<string>();
+    for (const transfer of activity.counterparties || []) {
+      if (transfer.direction !== "in") continue;
+      const threshold =
+        transfer.mint === SOL_MINT ? DUST_SOL_AMOUNT : DUST_TOKEN_AMOUNT;
+      if (transfer.amount >= threshold) continue;
+      dustMints.add(transfer.mint);
+      findings.push(
+        finding("dust", {
+          address: transfer.address,
+          mint: transfer.mint,
+          symbol: transfer.symbol,
+          amount: transfer.amount,
+        })
+      );
+    }
+
+    for (const movement of movements) {
+      if (movement.mint === SOL_MINT || dustMints.has(movement.mint)) {
+        continue;
+      }
+      const sender = (activity.counterparties || []).find(
+        (t) => t.mint === movement.mint && t.direction === "in"
+      )?.address;
+
+      if (movement.decimals === 0 && movement.amount === 1) {
+        findings.push(
+          finding("unsolicited_nft", {
+            address: sender,
+            mint: movement.mint,
+            symbol: movement.symbol,
+          })
+        );
+      } else if (!KNOWN_TOKENS[movement.mint] && !used.has(movement.mint)) {
+        findings.push(
+          finding("spam_airdrop", {
+            address: sender,
+            mint: movement.mint,
+            symbol: movement.symbol,
+            amount: movement.amount,
+          })
+        );
+      }
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,127 @@
+import {
+  AuthorityChange,
+  RiskLevel,
+  RiskWarning,
+  SimulationResult,
+} from "../types/interfaces";
+import { getTokenSymbol } from "../services/holdings";
+import { formatAddress } from "../services/labels";
+
+const RISK_ORDER: Record<RiskLevel, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Flags what a simulated transaction would do that a signer may not expect:
+ * handing over account ownership or authorities, approving token delegates
+ * (unlimited approvals in particular), emptying a signer's token balance and
+ * invoking programs the registry doesn't know
+ * @param simulation - Simulation result with balance and authority changes
+ * @returns Warnings ordered from highest to lowest risk
+ */
+export function assessSimulationRisks(
+  simulation: SimulationResult
+): RiskWarning[] {
+  const warnings: RiskWarning[] = simulation.authorityChanges
+    .map(describeAuthorityChange)
+    .filter((w): w is RiskWarning => w !== undefined);
+
+  for (const change of simulation.balanceChanges) {
+    if (
+      simulation.signers.includes(change.owner) &&
+      change.symbol !== "SOL" &&
+      change.before > 0 &&
+      change.after === 0
+    ) {
+      warnings.push({
+        level: "medium",
+        account: change.owner,
+        message: `Signer ${formatAddress(change.owner)} sends its entire ${
+          change.symbol
+        } balance (${change.before.toLocaleString("en-US")})`,
+      });
+    }
+  }
+
+  for (const program of simulation.programIds) {
+    if (program.known) continue;
+    warnings.push({
+      level: "medium",
+      account: program.id,
+      message: `Invokes unknown program \`${program.id}\`; verify it before signing`,
+    });
+  }
+
+  return warnings.sort((a, b) => RISK_ORDER[a.level] - RISK_ORDER[b.level]);
+}
+
+function describeAuthorityChange(
+  change: AuthorityChange
+): RiskWarning | undefined {
+  const account = formatAddress(change.account);
+  const to = change.after ? formatAddress(change.after) : "nobody";
+  const token = change.mint ? getTokenSymbol(change.mint) : "";
+
+  switch (change.kind) {
+    case "programOwner":
+      return {
+        level: "high",
+        account: change.account,
+        message: `Account ${account} is reassigned from the System Program to ${programName(
+          change.after
+        )}, which gains full control of its SOL`,
+      };
+    case "owner":
+      return {
+        level: "high",
+        account: change.account,
+        message: `Ownership of ${token} token account ${account} moves to ${to}`,
+      };
+    case "delegate":
+      return change.unlimited
+        ? {
+            level: "high",
+            account: change.account,
+            message: `Unlimited approval: ${to} may transfer all ${token} from ${account}`,
+          }
+        : {
+            level: "medium",
+            account: change.account,
+            message: `Approves ${to} to transfer up to ${(
+              change.amount || 0
+            ).toLocaleString("en-US")} ${token} from ${account}`,
+          };
+    case "closeAuthority":
+      return change.after
+        ? {
+            level: "medium",
+            account: change.account,
+            message: `${to} can close ${token} token account ${account} and claim its rent`,
+          }
+        : undefined;
+    case "withdrawer":
+      return {
+        level: "high",
+        account: change.account,
+        message: `Withdraw authority of stake account ${account} moves to ${to}`,
+      };
+    case "staker":
+      return {
+        level: "medium",
+        account: change.account,
+        message: `Stake authority of stake account ${account} moves to ${to}`,
+      };
+    case "mintAuthority":
+    case "freezeAuthority":
+      return {
+        level: change.after ? "medium" : "low",
+        account: change.account,
+        message: `${
+          change.kind === "mintAuthority" ? "Mint" : "Freeze"
+        } authority of ${token} moves to ${to}`,
+      };
+  }
+}
+
+function programName(programId?: string): string {
+  if (!programId) return "an unknown program";
+  return formatAddress(programId);
+}
@@ -0,0 +1,52 @@
+import { WalletActivity, SwapPairSummary } from "../types/interfaces";
+
+/**
+ * Groups decoded swaps by traded pair (input → output)
+ * @param activities - Wallet activities; only those with decoded swaps are used
+ * @returns One summary per pair, most traded first
+ */
+export function summarizeSwapPairs(
+  activities: WalletActivity[]
+): SwapPairSummary[] {
+  const pairs = new Map<string, SwapPairSummary>();
+
+  for (const { swap, timestamp } of activities) {
+    if (!swap) continue;
+
+    const key = `${swap.inputMint}:${swap.outputMint}`;
+    const summary = pairs.get(key) || {
+      pair: `${swap.inputSymbol} → ${swap.outputSymbol}`,
+      inputSymbol: swap.inputSymbol,
+      outputSymbol: swap.outputSymbol,
+      count: 0,
+      totalInput: 0,
+      totalOutput: 0,
+      averagePrice: 0,
+      venues: [],
+      firstSwap: timestamp,
+      lastSwap: timestamp,
+    };
+
+    summary.count++;
+    summary.totalInput += swap.inputAmount;
+    summary.totalOutput += swap.outputAmount;
+    if (swap.usdValue !== undefined) {
+      summary.totalUsdValue = (summary.totalUsdValue || 0) + swap.usdValue;
+    }
+    if (!summary.venues.includes(swap.venue)) {
+      summary.venues.push(swap.venue);
+    }
+    summary.firstSwap = Math.min(summary.firstSwap, timestamp);
+    summary.lastSwap = Math.max(summary.lastSwap, timestamp);
+
+    pairs.set(key, summary);
+  }
+
+  return Array.from(pairs.values())
+    .map((summary) => ({
+      ...summary,
+      // Volume-weighted: total received per total spent
+      averagePrice: summary.totalOutput / summary.totalInput,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,176 @@
+import { NATIVE_MINT } from "@solana/spl-token";
+import { WalletActivity, TaxEvent, TokenMovement } from "../types/interfaces";
+import { priceProvider } from "../services/price";
+import { KNOWN_TOKENS } from "../config/constants";
+
+const SOL_MINT = NATIVE_MINT.toString();
+
+// Income labels for reward claims, by activity type
+const REWARD_LABELS: Record<string, string> = {
+  Staking: "staking",
+  Lending: "reward",
+};
+
+/**
+ * Turns classified wallet activity into taxable events.
+ *
+ * - Decoded swaps, and swap or NFT trade activities that sent one token and
+ *   received another, are trades. Other activities aren't, as a rent refund
+ *   from closing a token account would look like the other leg
+ * - Receive-only reward claims are income; stake withdrawals, borrows and
+ *   other receive-only staking or lending activities are transfers in.
+ *   Receive-only activities the wallet didn't sign for, other than plain
+ *   transfers, are airdrop income
+ * - Remaining balance changes are transfers in or out
+ * - The wallet's network fee is attached to the activity's first event, or
+ *   exported on its own for failed transactions and activities that moved
+ *   nothing
+ *
+ * @param activities - Wallet activities from fetchWalletTransactions, in any order
+ * @returns Events ordered oldest first, valued in USD where a price is known
+ */
+export async function buildTaxEvents(
+  activities: WalletActivity[]
+): Promise<TaxEvent[]> {
+  const events: TaxEvent[] = [];
+
+  const ordered = activities
+    .slice()
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const activity of ordered) {
+    const activityEvents = activity.success
+      ? await buildActivityEvents(activity)
+      : [];
+
+    const fee = activity.fee || 0;
+    if (fee > 0) {
+      if (activityEvents.length > 0) {
+        activityEvents[0].feeAmount = fee;
+        activityEvents[0].feeCurrency = "SOL";
+      } else {
+        activityEvents.push({
+          ...baseEvent(activity, "fee"),
+          feeAmount: fee,
+          feeCurrency: "SOL",
+          usdValue: await valueAt(SOL_MINT, fee, activity.timestamp),
+          description: `Network fee${activity.success ? "" : " (failed transaction)"}`,
+        });
+      }
+    }
+
+    events.push(...activityEvents);
+  }
+
+  return events;
+}
+
+async function buildActivityEvents(
+  activity: WalletActivity
+): Promise<TaxEvent[]> {
+  const { swap } = activity;
+  if (swap) {
+    return [
+      {
+        ...baseEvent(activity, "trade"),
+        sentAmount: swap.inputAmount,
+        sentCurrency: getTaxCurrency(swap.inputMint),
+        receivedAmount: swap.outputAmount,
+        receivedCurrency: getTaxCurrency(swap.outputMint),
+        usdValue: swap.usdValue,
+      },
+    ];
+  }
+
+  const movements = activity.tokenMovements || [];
+  const outgoing = movements.filter((m) => m.direction === "out");
+  const incoming = movements.filter((m) => m.direction === "in");
+
+  if (isTradeActivity(activity) && outgoing.length === 1 && incoming.length === 1) {
+    const [sent] = outgoing;
+    const [received] = incoming;
+    return [
+      {
+        ...baseEvent(activity, "trade"),
+        sentAmount: Math.abs(sent.amount),
+        sentCurrency: getTaxCurrency(sent.mint),
+        receivedAmount: received.amount,
+        receivedCurrency: getTaxCurrency(received.mint),
+        usdValue:
+          (await valueAt(received.mint, received.amount, activity.timestamp)) ??
+          (await valueAt(sent.mint, Math.abs(sent.amount), activity.timestamp)),
+      },
+    ];
+  }
+
+  const incomeLabel = outgoing.length === 0 ? getIncomeLabel(activity) : undefined;
+  const events: TaxEvent[] = [];
+
+  for (const movement of outgoing) {
+    events.push(await movementEvent(activity, movement, "transfer_out"));
+  }
+  for (const movement of incoming) {
+    const event = await movementEvent(
+      activity,
+      movement,
+      incomeLabel ? "income" : "transfer_in"
+    );
+    events.push(incomeLabel ? { ...event, label: incomeLabel } : event);
+  }
+
+  return events;
+}
+
+function isTradeActivity(activity: WalletActivity): boolean {
+  return activity.type === "Swap" || activity.nft !== undefined;
+}
+
+function getIncomeLabel(activity: WalletActivity): string | undefined {
+  if (activity.rewardClaim) return REWARD_LABELS[activity.type] || "reward";
+  // Tokens the wallet neither paid for nor signed for, outside plain transfers
+  if (!activity.fee && activity.type !== "Transfer") return "airdrop";
+  return undefined;
+}
+
+async function movementEvent(
+  activity: WalletActivity,
+  movement: TokenMovement,
+  kind: TaxEvent["kind"]
+): Promise<TaxEvent> {
+  const amount = Math.abs(movement.amount);
+  const currency = getTaxCurrency(movement.mint);
+  const usdValue = await valueAt(movement.mint, amount, activity.timestamp);
+
+  return kind === "transfer_out"
+    ? { ...baseEvent(activity, kind), sentAmount: amount, sentCurrency: currency, usdValue }
+    : { ...baseEvent(activity, kind), receivedAmount: amount, receivedCurrency: currency, usdValue };
+}
+
+function baseEvent(
+  activity: WalletActivity,
+  kind: TaxEvent["kind"]
+): Pick<TaxEvent, "timestamp" | "signature" | "kind" | "description"> {
+  return {
+    timestamp: activity.timestamp,
+    signature: activity.signature,
+    kind,
+    description: activity.description,
+  };
+}
+
+/**
+ * Currency code for tax tools: the known symbol, otherwise the full mint
+ * address so unlisted tokens stay distinguishable
+ */
+function getTaxCurrency(mint: string): string {
+  return KNOWN_TOKENS[mint] || mint;
+}
+
+async function valueAt(
+  mint: string,
+  amount: number,
+  timestamp: number
+): Promise<number | undefined> {
+  const point = await priceProvider.getHistoricalPrice(mint, timestamp);
+  return point ? amount * point.price : undefined;
+}
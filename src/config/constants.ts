@@ -1,4 +1,5 @@
 import { clusterApiUrl } from "@solana/web3.js";
+import path from "path";
 import "dotenv/config";
 
 /**
@@ -9,27 +10,131 @@ export const RPC_URL =
   process.env.SOLANA_RPC_URL || clusterApiUrl("mainnet-beta");
 
 /**
- * Known Solana program IDs with their respective names
- * Using const assertion to ensure type safety and readonly properties
+ * MCP transport settings
+ * `stdio` serves the client that launched the process, `http` serves any
+ * number of Streamable HTTP sessions on host:port. The --http, --host and
+ * --port flags override these.
  */
-export const KNOWN_PROGRAMS = {
-  // DEXs and Swap Programs
-  RAYDIUM_SWAP: "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8",
-  ORCA_SWAP: "9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aQP",
-  JUPITER_AGGREGATOR: "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
-  SERUM_DEX_V3: "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin",
-  FLUXBEAM: "FLUXubRmkEi2q6K3Y9kBPg9248ggaZVsoSFhtJHSrm1X",
+export const TRANSPORT_CONFIG = {
+  transport: (process.env.MCP_TRANSPORT || "stdio") as "stdio" | "http",
+  host: process.env.MCP_HTTP_HOST || "127.0.0.1",
+  port: Number(process.env.MCP_HTTP_PORT || 3000),
+  // Bearer token clients must send when set
+  authToken: process.env.MCP_AUTH_TOKEN || "",
+};
 
-  // Staking and Lending
-  MARINADE_STAKING: "MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD",
-  SOLEND: "So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo",
-  MANGO_MARKETS: "mv3ekLzLbnVPNxjSKvqBpU3ZeZXPQdEC3bp5MDEBG68",
+/**
+ * Transaction history paging limits
+ * getSignaturesForAddress returns at most 1000 signatures per call
+ */
+export const HISTORY_CONFIG = {
+  signaturePageSize: 1000,
+  maxTransactions: Number(process.env.MAX_HISTORY_TRANSACTIONS || 1000),
+};
 
-  // Core Solana Programs
-  TOKEN_PROGRAM: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
-  ASSOCIATED_TOKEN_PROGRAM: "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL",
-  METAPLEX: "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s",
-} as const;
+/**
+ * Directory for local data files such as price fixtures
+ */
+export const DATA_DIR = process.env.DATA_DIR || path.resolve("data");
+
+/**
+ * Persistent wallet cache settings
+ * Activities are stored per wallet under DATA_DIR/wallets
+ */
+export const CACHE_CONFIG = {
+  directory: path.join(DATA_DIR, "wallets"),
+  maxAge: Number(process.env.CACHE_TTL_MS || 5 * 60 * 1000),
+};
+
+/**
+ * How often wallets with subscribed resources are synced, in milliseconds
+ * A sync only refetches history once the cache is older than CACHE_TTL_MS
+ */
+export const SUBSCRIPTION_POLL_MS = Number(process.env.SUBSCRIPTION_POLL_MS || 60 * 1000);
+
+/**
+ * USD price provider settings
+ * `fixture` reads a local JSON/CSV file, `http` queries PRICE_API_URL
+ */
+export const PRICE_CONFIG = {
+  provider: (process.env.PRICE_PROVIDER || "fixture") as "fixture" | "http",
+  fixturePath:
+    process.env.PRICE_FIXTURE_PATH || path.join(DATA_DIR, "prices.json"),
+  // URL templates support {mint} and {timestamp} (unix seconds) placeholders
+  apiUrl: process.env.PRICE_API_URL || "",
+  historyApiUrl: process.env.PRICE_HISTORY_API_URL || "",
+  // Dot path to the price in the JSON response, supports {mint}
+  responsePath: process.env.PRICE_API_RESPONSE_PATH || "price",
+  apiKey: process.env.PRICE_API_KEY || "",
+};
+
+/**
+ * APY source settings
+ * `fixture` reads a local JSON file, `http` queries APY_API_URL
+ */
+export const APY_CONFIG = {
+  source: (process.env.APY_SOURCE || "fixture") as "fixture" | "http",
+  fixturePath: process.env.APY_FIXTURE_PATH || path.join(DATA_DIR, "apy.json"),
+  // URL template supports {protocol}, {type} and {token} placeholders
+  apiUrl: process.env.APY_API_URL || "",
+  // Dot path to the APY percentage in the JSON response
+  responsePath: process.env.APY_API_RESPONSE_PATH || "apy",
+  apiKey: process.env.APY_API_KEY || "",
+};
+
+/**
+ * Named groups of wallet addresses, editable by hand or through the portfolio tools
+ */
+export const PORTFOLIOS_PATH =
+  process.env.PORTFOLIOS_PATH || path.join(DATA_DIR, "portfolios.json");
+
+/**
+ * Directory that exportTaxEvents writes CSV files to
+ */
+export const EXPORT_DIR = process.env.EXPORT_DIR || path.join(DATA_DIR, "exports");
+
+/**
+ * Lot matching method used for cost basis and PnL: `fifo`, `lifo` or `average`
+ */
+export const COST_BASIS_METHOD = process.env.COST_BASIS_METHOD || "fifo";
+
+/**
+ * Optional user-supplied protocol definitions (JSON or YAML) merged into the
+ * built-in registry
+ */
+export const PROTOCOLS_PATH =
+  process.env.PROTOCOLS_PATH || path.join(DATA_DIR, "protocols.json");
+
+/**
+ * Address book of user labels and tags, shown wherever reports mention an address
+ */
+export const LABELS_PATH = process.env.LABELS_PATH || path.join(DATA_DIR, "labels.json");
+
+/**
+ * Programs that never describe what a transaction does and are skipped when
+ * choosing a fallback primary program
+ */
+export const INFRASTRUCTURE_PROGRAMS = [
+  "ComputeBudget111111111111111111111111111111",
+] as const;
+
+/**
+ * Symbols for commonly held SPL tokens, keyed by mint address
+ * Mints not listed here are displayed with a shortened address
+ */
+export const KNOWN_TOKENS: Record<string, string> = {
+  So11111111111111111111111111111111111111112: "SOL",
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: "USDC",
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: "USDT",
+  mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So: "mSOL",
+  J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn: "JitoSOL",
+  bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1: "bSOL",
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: "JUP",
+  "4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R": "RAY",
+  orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE: "ORCA",
+  MNDEFzGvMt87ueuHvVU9VcTqsAP5b3fTGPsHuuPA5ey: "MNDE",
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: "BONK",
+};
 
 /**
  * Standard emoji mappings for transaction types
@@ -43,6 +148,12 @@ export const TYPE_EMOJI = {
   Trading: "📈", // Chart with upward trend for trading activity
   Lending: "🏦", // Bank for lending operations
   Liquidity: "💧", // Water droplet for liquidity provision
+  "Internal Transfer": "🔁", // Repeat arrows for moves between portfolio wallets
+  "NFT Mint": "🎨", // Palette for newly minted NFTs
+  "NFT Buy": "🛒", // Shopping cart for NFT purchases
+  "NFT Sale": "💰", // Money bag for NFT sales
+  "NFT Listing": "🏷️", // Price tag for NFTs listed on a marketplace
+  "NFT Delisting": "↩️", // Return arrow for NFTs taken off a marketplace
   Other: "🔹", // Small blue diamond for other activities
 } as const;
 
@@ -56,21 +167,6 @@ export const RISK_EMOJI = {
   aggressive: "🔴", // Red circle for high risk
 } as const;
 
-/**
- * Protocol brand emojis for visual identification
- * Maps protocol identifiers to representative emojis
- */
-export const PROTOCOL_EMOJI = {
-  RAYDIUM_SWAP: "☀️", // Sun for Raydium
-  ORCA_SWAP: "🐋", // Whale for Orca
-  JUPITER_AGGREGATOR: "🪐", // Planet for Jupiter
-  MARINADE_STAKING: "🧪", // Test tube for Marinade
-  SOLEND: "💵", // Dollar bill for Solend
-  MANGO_MARKETS: "🥭", // Mango for Mango Markets
-  FLUXBEAM: "⚡", // Lightning for FluxBeam
-  Aggregate: "📊", // Bar chart for aggregate stats
-} as const;
-
 /**
  * Time period constants in milliseconds for efficient date calculations
  */
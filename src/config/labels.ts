@@ -0,0 +1,36 @@
+import { AddressLabel } from "../types/interfaces";
+
+/**
+ * Well-known addresses labelled out of the box: exchange hot wallets and
+ * programs that aren't in the protocol registry. Entries in the address book
+ * (LABELS_PATH) with the same address take precedence.
+ */
+export const BUILT_IN_LABELS: AddressLabel[] = [
+  // Exchange hot wallets
+  { address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", label: "Binance", category: "exchange" },
+  { address: "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9", label: "Binance", category: "exchange" },
+  { address: "H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS", label: "Coinbase", category: "exchange" },
+  { address: "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm", label: "Coinbase", category: "exchange" },
+  { address: "FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5", label: "Kraken", category: "exchange" },
+  { address: "5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD", label: "OKX", category: "exchange" },
+  { address: "AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2", label: "Bybit", category: "exchange" },
+
+  // Native and utility programs
+  { address: "11111111111111111111111111111111", label: "System Program", category: "program" },
+  { address: "ComputeBudget111111111111111111111111111111", label: "Compute Budget", category: "program" },
+  { address: "AddressLookupTab1e1111111111111111111111111", label: "Address Lookup Table", category: "program" },
+  { address: "Vote111111111111111111111111111111111111111", label: "Vote Program", category: "program" },
+  { address: "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr", label: "Memo", category: "program" },
+  { address: "Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo", label: "Memo (v1)", category: "program" },
+  { address: "SysvarRent111111111111111111111111111111111", label: "Rent Sysvar", category: "program" },
+  { address: "SysvarC1ock11111111111111111111111111111111", label: "Clock Sysvar", category: "program" },
+
+  // Protocol programs without a registry entry
+  { address: "worm2ZoG2kUd4vFXhvjh93UUH596ayRfgQ2MgjNMTth", label: "Wormhole Core Bridge", category: "bridge" },
+  { address: "wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb", label: "Wormhole Token Bridge", category: "bridge" },
+  { address: "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P", label: "Pump.fun", category: "dex" },
+  { address: "PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY", label: "Phoenix", category: "orderbook" },
+  { address: "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo", label: "Meteora DLMM", category: "dex" },
+  { address: "KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD", label: "Kamino Lending", category: "lending" },
+  { address: "dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH", label: "Drift", category: "perps" },
+];
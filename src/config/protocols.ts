@@ -0,0 +1,154 @@
+import { ProtocolDefinition } from "../types/interfaces";
+
+/**
+ * Protocols recognised out of the box, keyed by a stable id
+ * Entries in PROTOCOLS_PATH with the same id override these; new ids are added
+ */
+export const BUILT_IN_PROTOCOLS: ProtocolDefinition[] = [
+  {
+    id: "JUPITER_AGGREGATOR",
+    name: "Jupiter",
+    category: "aggregator",
+    programIds: [
+      "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4",
+      "JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB",
+    ],
+    emoji: "🪐",
+    website: "https://jup.ag",
+  },
+  {
+    id: "RAYDIUM_SWAP",
+    name: "Raydium",
+    category: "dex",
+    programIds: [
+      "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8",
+      "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK",
+      "CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C",
+    ],
+    emoji: "☀️",
+    website: "https://raydium.io",
+  },
+  {
+    id: "ORCA_SWAP",
+    name: "Orca",
+    category: "dex",
+    programIds: [
+      "9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aQP",
+      "DjVE6JNiYqPL2QXyCUUh8rNjHrbz9hXHNYt99MQ59qw1",
+    ],
+    emoji: "🐋",
+    website: "https://www.orca.so",
+  },
+  {
+    id: "ORCA_WHIRLPOOLS",
+    name: "Orca Whirlpools",
+    category: "dex",
+    programIds: ["whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc"],
+    emoji: "🌀",
+    website: "https://www.orca.so",
+  },
+  {
+    id: "FLUXBEAM",
+    name: "FluxBeam",
+    category: "dex",
+    programIds: ["FLUXubRmkEi2q6K3Y9kBPg9248ggaZVsoSFhtJHSrm1X"],
+    emoji: "⚡",
+    website: "https://fluxbeam.xyz",
+  },
+  {
+    id: "SERUM_DEX_V3",
+    name: "Serum DEX v3",
+    category: "orderbook",
+    programIds: ["9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin"],
+    emoji: "📒",
+  },
+  {
+    id: "MANGO_MARKETS",
+    name: "Mango Markets",
+    category: "perps",
+    programIds: [
+      "mv3ekLzLbnVPNxjSKvqBpU3ZeZXPQdEC3bp5MDEBG68",
+      "4MangoMjqJ2firMokCjjGgoK8d4MXcrgL7XJaL3w6fVg",
+    ],
+    emoji: "🥭",
+    website: "https://mango.markets",
+  },
+  {
+    id: "SOLEND",
+    name: "Solend",
+    category: "lending",
+    programIds: ["So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo"],
+    emoji: "💵",
+    website: "https://solend.fi",
+  },
+  {
+    id: "MARINADE_STAKING",
+    name: "Marinade",
+    category: "staking",
+    programIds: ["MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD"],
+    emoji: "🧪",
+    website: "https://marinade.finance",
+  },
+  {
+    id: "LIDO",
+    name: "Lido for Solana",
+    category: "staking",
+    programIds: ["CrX7kMhLC3cSsXJdT7JDgqrRVWGnUpX3gfEfxxU2NVLi"],
+    emoji: "🌊",
+  },
+  {
+    id: "NATIVE_STAKING",
+    name: "Native Staking",
+    category: "staking",
+    programIds: ["Stake11111111111111111111111111111111111111"],
+    emoji: "🥩",
+    website: "https://solana.com/staking",
+  },
+  {
+    id: "MAGIC_EDEN",
+    name: "Magic Eden",
+    category: "marketplace",
+    programIds: [
+      "M2mx93ekt1fmXSVkTrUL9xVFHkmME8HTUi5Cyc5aF7K",
+      "mmm3XBJg5gk8XJxEKBvdgptZz6SgK4tXvn36sodowMc",
+    ],
+    emoji: "🪄",
+    website: "https://magiceden.io",
+  },
+  {
+    id: "TENSOR",
+    name: "Tensor",
+    category: "marketplace",
+    programIds: [
+      "TSWAPaqyCSx2KABk68Shruf4rp7CxcNi8hAsbdwmHbN",
+      "TCMPhJdwDryooaGtiocG1u3xcYbRpiJzb283XfCZsDp",
+    ],
+    emoji: "🔷",
+    website: "https://www.tensor.trade",
+  },
+  {
+    id: "METAPLEX",
+    name: "Metaplex",
+    category: "nft",
+    programIds: ["metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"],
+    emoji: "🖼️",
+    website: "https://www.metaplex.com",
+  },
+  {
+    id: "ASSOCIATED_TOKEN_PROGRAM",
+    name: "Associated Token Account",
+    category: "core",
+    programIds: ["ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL"],
+    emoji: "🔗",
+  },
+  {
+    id: "TOKEN_PROGRAM",
+    name: "SPL Token",
+    category: "core",
+    programIds: [
+      "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+      "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+    ],
+    emoji: "🪙",
+  },
+];
@@ -1,26 +1,41 @@
-import { WalletActivity } from "../types/interfaces";
+import { WalletActivity, ActivityPage, ScamFinding } from "../types/interfaces";
 import { identifyProtocol } from "../services/transaction";
+import { protocolRegistry } from "../services/protocolRegistry";
 import { TYPE_EMOJI, TIME_PERIODS } from "../config/constants";
+import { formatUsdSuffix } from "../utils/currency";
+import { formatSwapLine } from "./formatSwaps";
+import { formatNftTradeLine } from "./formatNfts";
+import { describeScamFinding } from "../analyzers/scamAnalyzer";
+import { shortenAddress } from "../utils/address";
+import { formatAddress } from "../services/labels";
+
+// Scam findings listed before the rest are summarized as a count
+const MAX_SCAM_WARNINGS = 10;
 
 /**
  * Formats wallet activity data into a comprehensive markdown report
  * @param activities List of wallet activities to analyze and format
  * @param walletAddress The address of the wallet being analyzed
+ * @param page Optional paging state used to render a continuation cursor
+ * @param scamFindings Likely dusting, address poisoning and spam in the activities
  * @returns Formatted markdown string with activity report
  */
 export function formatActivityHistory(
   activities: WalletActivity[],
-  walletAddress: string
+  walletAddress: string,
+  page?: Pick<ActivityPage, "nextCursor" | "hasMore">,
+  scamFindings: ScamFinding[] = []
 ): string {
   // Early return for empty activities
   if (!activities.length) {
-    return `# Wallet Activity Report\n\n**Wallet Address:** \`${walletAddress}\`\n\nNo transaction history found for this wallet.`;
+    return `# Wallet Activity Report\n\n**Wallet Address:** ${formatAddress(walletAddress, { full: true })}\n\nNo transaction history found for this wallet.`;
   }
 
   // Perform a single pass through activities to collect all necessary data
   const {
     activityTypes,
     totalVolume,
+    totalVolumeUsd,
     oldestTimestamp,
     newestTimestamp,
     programInteractions,
@@ -53,10 +68,13 @@ export function formatActivityHistory(
     activities,
     activityTypes,
     totalVolume,
+    totalVolumeUsd,
     mostCommonActivity,
     avgTransactionValue,
     transactionsPerDay,
     programInteractions,
+    page,
+    scamFindings,
   });
 }
 
@@ -69,6 +87,7 @@ function analyzeActivities(activities: WalletActivity[]) {
   const activityTypes: Record<string, WalletActivity[]> = {};
   const programInteractions: Record<string, number> = {};
   let totalVolume = 0;
+  let totalVolumeUsd: number | undefined;
   let oldestTimestamp = Infinity;
   let newestTimestamp = 0;
 
@@ -81,11 +100,14 @@ function analyzeActivities(activities: WalletActivity[]) {
     activityTypes[activity.type].push(activity);
 
     // Track program interactions
-    const protocol = identifyProtocol(activity.programId);
+    const protocol = protocolRegistry.getName(identifyProtocol(activity.programId));
     programInteractions[protocol] = (programInteractions[protocol] || 0) + 1;
 
     // Calculate total volume
     totalVolume += activity.value || 0;
+    if (activity.usdValue !== undefined) {
+      totalVolumeUsd = (totalVolumeUsd || 0) + activity.usdValue;
+    }
 
     // Track oldest and newest timestamps
     if (activity.timestamp < oldestTimestamp)
@@ -97,6 +119,7 @@ function analyzeActivities(activities: WalletActivity[]) {
   return {
     activityTypes,
     totalVolume,
+    totalVolumeUsd,
     oldestTimestamp,
     newestTimestamp,
     programInteractions,
@@ -115,10 +138,13 @@ function buildMarkdownReport(params: {
   activities: WalletActivity[];
   activityTypes: Record<string, WalletActivity[]>;
   totalVolume: number;
+  totalVolumeUsd?: number;
   mostCommonActivity: string;
   avgTransactionValue: number;
   transactionsPerDay: string;
   programInteractions: Record<string, number>;
+  page?: Pick<ActivityPage, "nextCursor" | "hasMore">;
+  scamFindings: ScamFinding[];
 }): string {
   const {
     walletAddress,
@@ -127,10 +153,13 @@ function buildMarkdownReport(params: {
     activities,
     activityTypes,
     totalVolume,
+    totalVolumeUsd,
     mostCommonActivity,
     avgTransactionValue,
     transactionsPerDay,
     programInteractions,
+    page,
+    scamFindings,
   } = params;
 
   // Format date strings for better readability
@@ -154,10 +183,30 @@ function buildMarkdownReport(params: {
   // Build header section
   const header = `# Wallet Activity Report
 
-**Wallet Address:** \`${walletAddress}\`
+**Wallet Address:** ${formatAddress(walletAddress, { full: true })}
 **Time Period:** ${formatDate(oldestDate)} to ${formatDate(newestDate)}
 **Total Transactions:** ${activities.length}
-**Total Volume:** ${formatSOL(totalVolume)}`;
+**Total Volume:** ${formatSOL(totalVolume)}${formatUsdSuffix(totalVolumeUsd)}`;
+
+  // Build scam warnings section so they're seen before the history
+  const scamWarnings = scamFindings.length
+    ? `## ⚠️ Scam Warnings
+${scamFindings
+  .slice(0, MAX_SCAM_WARNINGS)
+  .map(
+    (finding) =>
+      `- ${describeScamFinding(finding)} (${formatDate(
+        new Date(finding.timestamp)
+      )}, \`${shortenAddress(finding.signature)}\`)`
+  )
+  .join("\n")}${
+        scamFindings.length > MAX_SCAM_WARNINGS
+          ? `\n- ...and ${scamFindings.length - MAX_SCAM_WARNINGS} more`
+          : ""
+      }
+
+Never copy a recipient from your transaction history; lookalike addresses share the first and last characters of real ones.`
+    : "";
 
   // Build activity summary section
   const activitySummary = `## Activity Summary
@@ -179,9 +228,26 @@ ${activities
       new Date(activity.timestamp)
     )}
 - **Type:** ${activity.type}
-- **Value:** ${activity.value ? formatSOL(activity.value) : "N/A"}
-- **Program:** ${identifyProtocol(activity.programId)}
-- **Status:** ${activity.success ? "✅ Success" : "❌ Failed"}
+- **Value:** ${
+      activity.value
+        ? formatSOL(activity.value) + formatUsdSuffix(activity.usdValue)
+        : "N/A"
+    }
+${activity.swap ? `- **Swap:** ${formatSwapLine(activity.swap)}\n` : ""}${
+      activity.nft ? `- **NFT:** ${formatNftTradeLine(activity.nft)}\n` : ""
+    }${
+      activity.tokenMovements && activity.tokenMovements.length
+        ? `- **Token Movements:** ${formatMovements(activity)}\n`
+        : ""
+    }- **Program:** ${protocolRegistry.getName(identifyProtocol(activity.programId))}${
+      activity.protocols && activity.protocols.length > 1
+        ? `\n- **Protocols Touched:** ${activity.protocols.map((id) => protocolRegistry.getName(id)).join(", ")}`
+        : ""
+    }
+- **Status:** ${activity.success ? "✅ Success" : "❌ Failed"}${formatScamWarnings(
+      activity,
+      scamFindings
+    )}
 - **Signature:** \`${activity.signature}\`
 ${activity.description ? `- **Description:** ${activity.description}` : ""}`
   )
@@ -192,7 +258,13 @@ ${activity.description ? `- **Description:** ${activity.description}` : ""}`
 - **Most Common Activity:** ${getEmoji(
     mostCommonActivity
   )} ${mostCommonActivity}
-- **Average Transaction Value:** ${formatSOL(avgTransactionValue)}
+- **Average Transaction Value:** ${formatSOL(
+    avgTransactionValue
+  )}${formatUsdSuffix(
+    totalVolumeUsd !== undefined
+      ? totalVolumeUsd / activities.length
+      : undefined
+  )}
 - **Activity Frequency:** ${transactionsPerDay} transactions per day`;
 
   // Build program interaction summary
@@ -208,12 +280,55 @@ ${Object.entries(programInteractions)
       : "includes all " + activities.length + " transactions"
   }. For a full analysis, use the analyzeWallet tool.*`;
 
+  // Build pagination section so agents can continue from the oldest transaction
+  const pagination = page?.nextCursor
+    ? `## Pagination
+**Next Cursor:** \`${page.nextCursor}\`
+Pass this signature as \`before\` to fetch the next page of older transactions.`
+    : page
+    ? `## Pagination
+No further transactions in the requested range.`
+    : "";
+
   // Combine all sections
   return [
     header,
+    scamWarnings,
     activitySummary,
     transactionHistory,
     transactionPatterns,
     programSummary,
-  ].join("\n\n");
+    pagination,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Formats the scam warnings attached to one activity as a list line
+ */
+function formatScamWarnings(
+  activity: WalletActivity,
+  scamFindings: ScamFinding[]
+): string {
+  const warnings = scamFindings.filter(
+    (f) => f.signature === activity.signature
+  );
+  return warnings.length
+    ? `\n- **⚠️ Warning:** ${warnings.map(describeScamFinding).join("; ")}`
+    : "";
+}
+
+/**
+ * Formats an activity's token movements, e.g. "+1.5 USDC, -0.2 SOL"
+ */
+function formatMovements(activity: WalletActivity): string {
+  return (activity.tokenMovements || [])
+    .map(
+      (m) =>
+        `${m.amount > 0 ? "+" : ""}${m.amount.toLocaleString("en-US", {
+          maximumFractionDigits: 6,
+        })} ${m.symbol}`
+    )
+    .join(", ");
 }
@@ -0,0 +1,105 @@
+import {
+  RiskLevel,
+  TokenApproval,
+  TokenApprovalAudit,
+  TokenApprovalKind,
+} from "../types/interfaces";
+import { shortenAddress } from "../utils/address";
+import { formatAddress } from "../services/labels";
+
+const RISK_EMOJI: Record<RiskLevel, string> = {
+  high: "🔴",
+  medium: "🟠",
+  low: "🟡",
+};
+
+const KIND_LABELS: Record<TokenApprovalKind, string> = {
+  delegate: "Delegate",
+  closeAuthority: "Close Authority",
+  owner: "Reassigned Owner",
+};
+
+/**
+ * Formats a token approval audit into a risk-ranked markdown table
+ * @param audit Approvals found for the wallet, riskiest first
+ * @param searchDepth Transactions searched per account for the granting transaction
+ * @returns Formatted markdown string with one row per approval
+ */
+export function formatTokenApprovals(
+  audit: TokenApprovalAudit,
+  searchDepth: number
+): string {
+  const count = (risk: RiskLevel) =>
+    audit.approvals.filter((a) => a.risk === risk).length;
+
+  const header = `# Token Approvals
+
+**Wallet Address:** ${formatAddress(audit.address, { full: true })}
+**Token Accounts Scanned:** ${audit.tokenAccountsScanned}
+**Approvals Found:** ${audit.approvals.length} (${RISK_EMOJI.high} ${count(
+    "high"
+  )} high, ${RISK_EMOJI.medium} ${count("medium")} medium, ${
+    RISK_EMOJI.low
+  } ${count("low")} low)`;
+
+  const warnings = audit.warnings.length
+    ? `\n\n${audit.warnings.map((w) => `⚠️ ${w}`).join("\n")}`
+    : "";
+
+  if (!audit.approvals.length) {
+    return `${header}
+
+No active delegates, close authorities or reassigned token accounts found.${warnings}`;
+  }
+
+  const rows = audit.approvals
+    .map(
+      (a) =>
+        `| ${RISK_EMOJI[a.risk]} ${a.risk} | ${KIND_LABELS[a.kind]} | ${
+          a.symbol
+        } | ${formatAddress(a.tokenAccount)} | ${formatAuthority(
+          a
+        )} | ${formatAllowance(a)} | ${formatGrant(a, searchDepth)} | ${a.reasons.join(
+          "<br>"
+        )} |`
+    )
+    .join("\n");
+
+  return `${header}
+
+| Risk | Kind | Token | Account | Authority | Balance / Allowance | Granted In | Reasons |
+|------|------|-------|---------|-----------|---------------------|------------|---------|
+${rows}
+
+Revoke delegates with the token program's \`revoke\` instruction (most wallets offer this), and move funds out of accounts you no longer control.${warnings}`;
+}
+
+function formatAuthority(approval: TokenApproval): string {
+  const address = `\`${shortenAddress(approval.authority)}\``;
+  return approval.authorityLabel
+    ? `${approval.authorityLabel} (${address})`
+    : `❔ ${address}`;
+}
+
+function formatAllowance(approval: TokenApproval): string {
+  const balance = formatAmount(approval.balance);
+  if (approval.kind !== "delegate") return balance;
+  return `${balance} / ${
+    approval.unlimited ? "unlimited" : formatAmount(approval.delegatedAmount || 0)
+  }`;
+}
+
+function formatGrant(approval: TokenApproval, searchDepth: number): string {
+  const grant = approval.grantedBy;
+  if (!grant) return `Not in last ${searchDepth} txs`;
+  const date = grant.timestamp
+    ? ` (${new Date(grant.timestamp).toISOString().slice(0, 10)})`
+    : "";
+  return `\`${shortenAddress(grant.signature)}\`${date}`;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-US", {
+    maximumFractionDigits: amount < 1 ? 6 : 4,
+  });
+}
@@ -0,0 +1,172 @@
+import { WalletComparison, SharedItem } from "../types/interfaces";
+import { RISK_EMOJI } from "../config/constants";
+import { protocolRegistry } from "../services/protocolRegistry";
+import { formatUsd } from "../utils/currency";
+import { formatAddress } from "../services/labels";
+
+// Shared and unique lists get long quickly; the JSON has all of them
+const MAX_LISTED_ITEMS = 10;
+
+/**
+ * Formats a side-by-side comparison of several wallets
+ * @param comparison Per-wallet summaries and shared/unique protocols and counterparties
+ * @returns Formatted markdown string with one column per wallet
+ */
+export function formatWalletComparison(comparison: WalletComparison): string {
+  const wallets = comparison.wallets;
+  const columns = wallets.map((w) => formatAddress(w.profile.address));
+
+  const activityTypes = Array.from(
+    new Set(wallets.flatMap((w) => Object.keys(w.activityTypes)))
+  ).sort();
+
+  const row = (label: string, values: string[]) =>
+    `| **${label}** | ${values.join(" | ")} |`;
+
+  const rows = [
+    row(
+      "Risk Profile",
+      wallets.map(
+        (w) =>
+          `${RISK_EMOJI[w.profile.riskProfile]} ${w.profile.riskProfile}`
+      )
+    ),
+    row(
+      "Diversification",
+      wallets.map((w) => `${w.profile.portfolioDiversification}/100`)
+    ),
+    row(
+      "Transactions",
+      wallets.map((w) => String(w.profile.activityCount))
+    ),
+    ...activityTypes.map((type) =>
+      row(
+        `↳ ${type}`,
+        wallets.map((w) => String(w.activityTypes[type] || 0))
+      )
+    ),
+    row(
+      "Volume (SOL)",
+      wallets.map((w) => w.profile.transactionVolume.toFixed(2))
+    ),
+    row(
+      "Volume (USD)",
+      wallets.map((w) => formatUsd(w.profile.transactionVolumeUsd))
+    ),
+    row(
+      "First Activity",
+      wallets.map((w) => formatDate(w.profile.firstActivityDate))
+    ),
+    row(
+      "Last Activity",
+      wallets.map((w) => formatDate(w.profile.lastActivityDate))
+    ),
+    row(
+      "Protocol Mix",
+      // Share of each wallet's transactions that used the protocol
+      wallets.map(
+        (w) =>
+          w.profile.favoriteProtocols
+            .map(
+              (p) =>
+                `${protocolRegistry.getName(p.name)} ${Math.round(
+                  (p.count / w.profile.activityCount) * 100
+                )}%`
+            )
+            .join("<br>") || "-"
+      )
+    ),
+    row(
+      "Patterns",
+      wallets.map(
+        (w) => w.patterns.map((p) => p.patternType).join("<br>") || "-"
+      )
+    ),
+    row(
+      "Recommendations",
+      wallets.map(
+        (w) => w.recommendations.map((r) => r.strategy).join("<br>") || "-"
+      )
+    ),
+    row(
+      "Counterparties",
+      wallets.map((w) => String(w.counterpartyCount))
+    ),
+  ];
+
+  const sections = [
+    `# Wallet Comparison
+
+${wallets
+  .map((w) => `- ${formatAddress(w.profile.address)}: \`${w.profile.address}\``)
+  .join("\n")}`,
+    `## Side by Side
+| Metric | ${columns.join(" | ")} |
+|--------|${columns.map(() => "---").join("|")}|
+${rows.join("\n")}`,
+    formatOverlap(
+      "Protocols",
+      comparison.sharedProtocols,
+      comparison.uniqueProtocols,
+      (id) => `${protocolRegistry.getEmoji(id)} ${protocolRegistry.getName(id)}`
+    ),
+    formatOverlap(
+      "Counterparties",
+      comparison.sharedCounterparties,
+      comparison.uniqueCounterparties,
+      (address) => formatAddress(address, { full: true })
+    ),
+  ];
+
+  return sections.join("\n\n");
+}
+
+function formatOverlap(
+  title: string,
+  shared: SharedItem[],
+  unique: Record<string, string[]>,
+  formatItem: (id: string) => string
+): string {
+  const sharedList = shared.length
+    ? shared
+        .slice(0, MAX_LISTED_ITEMS)
+        .map(
+          (item) =>
+            `- ${formatItem(item.id)}: ${item.wallets
+              .map((w) => formatAddress(w))
+              .join(", ")}`
+        )
+        .join("\n")
+    : "None";
+
+  const uniqueLists = Object.entries(unique)
+    .map(([wallet, items]) => {
+      const listed = items
+        .slice(0, MAX_LISTED_ITEMS)
+        .map((item) => `- ${formatItem(item)}`)
+        .join("\n");
+      const more =
+        items.length > MAX_LISTED_ITEMS
+          ? `\n- …and ${items.length - MAX_LISTED_ITEMS} more`
+          : "";
+      return `#### Only ${formatAddress(wallet)}
+${listed ? `${listed}${more}` : "None"}`;
+    })
+    .join("\n\n");
+
+  const moreShared =
+    shared.length > MAX_LISTED_ITEMS
+      ? `\n- …and ${shared.length - MAX_LISTED_ITEMS} more`
+      : "";
+
+  return `## ${title}
+### Shared
+${sharedList}${moreShared}
+
+### Unique
+${uniqueLists}`;
+}
+
+function formatDate(timestamp: number): string {
+  return timestamp ? new Date(timestamp).toISOString().slice(0, 10) : "-";
+}
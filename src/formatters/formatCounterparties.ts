@@ -0,0 +1,81 @@
+import { CounterpartySummary } from "../types/interfaces";
+import { shortenAddress } from "../utils/address";
+import { formatAddress } from "../services/labels";
+
+const LABEL_SOURCE_EMOJI: Record<CounterpartySummary["labelSource"], string> = {
+  "label-file": "🏷️",
+  program: "⚙️",
+  "built-in": "📇",
+  unknown: "❔",
+};
+
+/**
+ * Formats a wallet's counterparties into a ranked markdown table
+ * @param address The analyzed wallet
+ * @param counterparties Counterparties in rank order
+ * @param total Number of counterparties before the list was truncated
+ * @returns Formatted markdown string with one row per counterparty
+ */
+export function formatCounterparties(
+  address: string,
+  counterparties: CounterpartySummary[],
+  total: number = counterparties.length
+): string {
+  const header = `# Counterparties
+
+**Wallet Address:** ${formatAddress(address, { full: true })}
+**Counterparties Found:** ${total}`;
+
+  if (!counterparties.length) {
+    return `${header}
+
+No direct SOL or token transfers found in the analyzed history.`;
+  }
+
+  const rows = counterparties
+    .map(
+      (c, index) =>
+        `| ${index + 1} | ${formatCounterparty(c)} | ${c.transactionCount} | ${
+          c.sentCount
+        } / ${c.receivedCount} | ${formatAmounts(c, "sent")} | ${formatAmounts(
+          c,
+          "received"
+        )} | ${formatDate(c.firstSeen)} | ${formatDate(c.lastSeen)} |`
+    )
+    .join("\n");
+
+  return `${header}
+${total > counterparties.length ? `Showing the top ${counterparties.length}.\n` : ""}
+| # | Counterparty | Txs | Sent / Received Txs | Sent | Received | First Seen | Last Seen |
+|---|--------------|-----|---------------------|------|----------|------------|-----------|
+${rows}`;
+}
+
+function formatCounterparty(counterparty: CounterpartySummary): string {
+  const emoji = LABEL_SOURCE_EMOJI[counterparty.labelSource];
+  const address = `\`${shortenAddress(counterparty.address)}\``;
+  if (!counterparty.label) return `${emoji} ${address}`;
+
+  const category = counterparty.category ? ` _${counterparty.category}_` : "";
+  return `${emoji} ${counterparty.label} (${address})${category}`;
+}
+
+function formatAmounts(
+  counterparty: CounterpartySummary,
+  side: "sent" | "received"
+): string {
+  const amounts = counterparty.amounts.filter((a) => a[side] > 0);
+  if (!amounts.length) return "-";
+  return amounts
+    .map(
+      (a) =>
+        `${a[side].toLocaleString("en-US", {
+          maximumFractionDigits: a[side] < 1 ? 6 : 4,
+        })} ${a.symbol}`
+    )
+    .join("<br>");
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
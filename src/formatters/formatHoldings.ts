@@ -0,0 +1,118 @@
+import { TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { TokenHolding } from "../types/interfaces";
+import { formatUsd } from "../utils/currency";
+import { formatAddress } from "../services/labels";
+
+/**
+ * Formats wallet holdings into a standalone markdown report
+ * @param holdings Native SOL and token holdings of the wallet
+ * @param walletAddress The address of the wallet being reported on
+ * @returns Formatted markdown string with holdings report
+ */
+export function formatHoldingsReport(
+  holdings: TokenHolding[],
+  walletAddress: string
+): string {
+  const tokenAccounts = holdings.filter((h) => !h.isNative);
+  const priced = holdings.filter((h) => h.usdValue !== undefined);
+  const totalUsd = priced.length
+    ? priced.reduce((sum, h) => sum + (h.usdValue || 0), 0)
+    : undefined;
+
+  const header = `# Wallet Holdings Report
+
+**Wallet Address:** ${formatAddress(walletAddress, { full: true })}
+**Token Accounts:** ${tokenAccounts.length}
+**Total Value:** ${formatUsd(totalUsd)}${
+    priced.length && priced.length < holdings.filter((h) => h.amount > 0).length
+      ? " (priced holdings only)"
+      : ""
+  }`;
+
+  return [header, formatHoldingsTable(holdings), formatReclaimableRent(holdings)]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Formats the holdings table shared by the holdings and wallet analysis reports
+ * @param holdings Native SOL and token holdings of the wallet
+ * @returns Markdown section listing non-empty holdings
+ */
+export function formatHoldingsTable(holdings: TokenHolding[]): string {
+  const nonEmpty = holdings.filter((h) => h.amount > 0);
+
+  if (!nonEmpty.length) {
+    return `## Holdings
+No token balances found for this wallet.`;
+  }
+
+  const rows = nonEmpty
+    .map(
+      (h) =>
+        `| ${h.symbol} | ${formatAmount(h.amount, h.decimals)} | ${formatUsd(
+          h.usdValue
+        )} | ${formatAddress(h.mint, { full: true })} | ${
+          h.isNative ? "Native" : formatProgram(h.tokenProgram)
+        } |`
+    )
+    .join("\n");
+
+  return `## Holdings
+| Token | Amount | USD Value | Mint | Program |
+| ----- | ------ | --------- | ---- | ------- |
+${rows}`;
+}
+
+/**
+ * Formats the list of zero-balance token accounts whose rent can be reclaimed
+ */
+function formatReclaimableRent(holdings: TokenHolding[]): string {
+  const emptyAccounts = holdings.filter(
+    (h) => h.reclaimableRent !== undefined
+  );
+
+  if (!emptyAccounts.length) return "";
+
+  const totalRent = emptyAccounts.reduce(
+    (sum, h) => sum + (h.reclaimableRent || 0),
+    0
+  );
+
+  return `## Reclaimable Rent
+${emptyAccounts.length} empty token accounts can be closed to reclaim **${totalRent.toFixed(
+    6
+  )} SOL** of rent:
+${emptyAccounts
+  .map(
+    (h) =>
+      `- ${h.symbol}: ${
+        h.tokenAccount ? formatAddress(h.tokenAccount, { full: true }) : "-"
+      } (${(h.reclaimableRent || 0).toFixed(
+        6
+      )} SOL)`
+  )
+  .join("\n")}`;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Formats a token amount with precision suited to its size
+ */
+function formatAmount(amount: number, decimals: number): string {
+  if (decimals === 0) return amount.toString();
+  return amount.toLocaleString("en-US", {
+    maximumFractionDigits: amount < 1 ? Math.min(decimals, 6) : 4,
+  });
+}
+
+/**
+ * Gets a readable name for the token program that owns an account
+ */
+function formatProgram(programId: string | undefined): string {
+  if (programId === TOKEN_2022_PROGRAM_ID.toString()) {
+    return "Token-2022";
+  }
+  return "SPL Token";
+}
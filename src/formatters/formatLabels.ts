@@ -0,0 +1,39 @@
+import { AddressLabel } from "../types/interfaces";
+
+/**
+ * Formats address book entries, and optionally the bundled labels, as tables
+ * @param entries Address book entries
+ * @param builtIn Bundled labels to list after the address book
+ * @returns Formatted markdown string
+ */
+export function formatAddressBook(
+  entries: AddressLabel[],
+  builtIn: AddressLabel[] = []
+): string {
+  const addressBook = entries.length
+    ? `## Address Book (${entries.length})
+${formatLabelTable(entries)}`
+    : `## Address Book
+No labels saved. Add one with saveAddressLabel.`;
+
+  const bundled = builtIn.length
+    ? `## Bundled Labels (${builtIn.length})
+${formatLabelTable(builtIn)}`
+    : "";
+
+  return [`# Address Labels`, addressBook, bundled].filter(Boolean).join("\n\n");
+}
+
+function formatLabelTable(entries: AddressLabel[]): string {
+  return `| Label | Address | Category | Tags |
+|-------|---------|----------|------|
+${[...entries]
+  .sort((a, b) => a.label.localeCompare(b.label))
+  .map(
+    (entry) =>
+      `| ${entry.label} | \`${entry.address}\` | ${entry.category || "-"} | ${
+        entry.tags?.length ? entry.tags.join(", ") : "-"
+      } |`
+  )
+  .join("\n")}`;
+}
@@ -0,0 +1,137 @@
+import { NftHolding, NftTrade, WalletActivity } from "../types/interfaces";
+import { protocolRegistry } from "../services/protocolRegistry";
+import { getTokenSymbol } from "../services/holdings";
+import { NFT_ACTION_TYPES } from "../services/nfts";
+import { formatUsdSuffix } from "../utils/currency";
+import { shortenAddress } from "../utils/address";
+import { formatAddress } from "../services/labels";
+
+/**
+ * Formats a wallet's NFTs, grouped by collection, and its recent marketplace trades
+ * @param address The analyzed wallet
+ * @param nfts NFTs currently held
+ * @param trades Activities with decoded marketplace trades, newest first
+ * @returns Formatted markdown string
+ */
+export function formatWalletNfts(
+  address: string,
+  nfts: NftHolding[],
+  trades: WalletActivity[]
+): string {
+  const header = `# NFT Holdings
+
+**Wallet Address:** ${formatAddress(address, { full: true })}
+**NFTs Held:** ${nfts.length}`;
+
+  return [
+    header,
+    formatCollections(nfts),
+    formatNftTable(nfts),
+    formatTrades(trades, nfts),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * One-line summary of a marketplace trade, e.g. "NFT Buy of 7xKX…gAsU for 42 SOL on Tensor"
+ */
+export function formatNftTradeLine(trade: NftTrade): string {
+  const price =
+    trade.price !== undefined
+      ? ` for ${formatSol(trade.price)} SOL${formatUsdSuffix(trade.usdValue)}`
+      : "";
+  return `${NFT_ACTION_TYPES[trade.action]} of ${getTokenSymbol(
+    trade.mint
+  )}${price} on ${protocolRegistry.getName(trade.marketplace)}`;
+}
+
+function formatCollections(nfts: NftHolding[]): string {
+  if (!nfts.length) return "";
+
+  const collections = new Map<string, { verified: boolean; count: number }>();
+  for (const nft of nfts) {
+    const key = nft.metadata?.collection?.address || "none";
+    const entry = collections.get(key) || {
+      verified: nft.metadata?.collection?.verified || false,
+      count: 0,
+    };
+    entry.count++;
+    collections.set(key, entry);
+  }
+
+  return `## Collections
+${Array.from(collections.entries())
+  .sort((a, b) => b[1].count - a[1].count)
+  .map(([collection, { verified, count }]) =>
+    collection === "none"
+      ? `- No collection: ${count}`
+      : `- ${formatAddress(collection)}${
+          verified ? " ✅" : " (unverified)"
+        }: ${count}`
+  )
+  .join("\n")}`;
+}
+
+function formatNftTable(nfts: NftHolding[]): string {
+  if (!nfts.length) {
+    return "No NFTs found in this wallet.";
+  }
+
+  return `## NFTs
+| Name | Symbol | Collection | Mint | Metadata URI |
+|------|--------|------------|------|--------------|
+${nfts
+  .map((nft) => {
+    const metadata = nft.metadata;
+    const collection = metadata?.collection
+      ? formatAddress(metadata.collection.address)
+      : "-";
+    return `| ${metadata?.name || "Unknown"} | ${metadata?.symbol || "-"} | ${collection} | ${formatAddress(
+      nft.mint,
+      { full: true }
+    )} | ${metadata?.uri || "-"} |`;
+  })
+  .join("\n")}`;
+}
+
+function formatTrades(trades: WalletActivity[], nfts: NftHolding[]): string {
+  if (!trades.length) return "";
+
+  // NFTs still held have a name; sold ones show their mint
+  const names = new Map(
+    nfts
+      .filter((nft) => nft.metadata?.name)
+      .map((nft) => [nft.mint, nft.metadata!.name])
+  );
+
+  const total = (action: NftTrade["action"]) =>
+    trades
+      .filter((t) => t.nft?.action === action)
+      .reduce((sum, t) => sum + (t.nft?.price || 0), 0);
+
+  return `## Marketplace Activity
+**Bought:** ${formatSol(total("buy"))} SOL
+**Sold:** ${formatSol(total("sell"))} SOL
+
+| Date | Action | NFT | Price | Marketplace | Signature |
+|------|--------|-----|-------|-------------|-----------|
+${trades
+  .map((activity) => {
+    const trade = activity.nft!;
+    return `| ${new Date(activity.timestamp).toISOString().slice(0, 10)} | ${
+      NFT_ACTION_TYPES[trade.action]
+    } | ${names.get(trade.mint) || formatAddress(trade.mint)} | ${
+      trade.price !== undefined
+        ? `${formatSol(trade.price)} SOL${formatUsdSuffix(trade.usdValue)}`
+        : "-"
+    } | ${protocolRegistry.getName(trade.marketplace)} | \`${shortenAddress(
+      activity.signature
+    )}\` |`;
+  })
+  .join("\n")}`;
+}
+
+function formatSol(amount: number): string {
+  return amount.toLocaleString("en-US", { maximumFractionDigits: 4 });
+}
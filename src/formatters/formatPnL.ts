@@ -0,0 +1,129 @@
+import { PnLReport, RealizedEvent } from "../types/interfaces";
+import { formatUsd } from "../utils/currency";
+import { formatAddress } from "../services/labels";
+
+const METHOD_LABELS: Record<PnLReport["method"], string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  average: "Average cost",
+};
+
+/**
+ * Formats a PnL report into a standalone markdown report
+ * @param report Realized and unrealized PnL for the wallet
+ * @param walletAddress The address of the wallet being reported on
+ * @returns Formatted markdown string with PnL report
+ */
+export function formatPnLReport(
+  report: PnLReport,
+  walletAddress: string
+): string {
+  const header = `# Wallet PnL Report
+
+**Wallet Address:** ${formatAddress(walletAddress, { full: true })}
+**Cost Basis Method:** ${METHOD_LABELS[report.method]}
+**Period:** ${formatDate(report.from)} to ${formatDate(report.to)} (${
+    report.activityCount
+  } transactions)`;
+
+  return [header, formatPnLSection(report), formatRecentDisposals(report.disposals)]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Formats the PnL totals and per-token table shared by the PnL and wallet
+ * analysis reports
+ * @param report Realized and unrealized PnL for the wallet
+ * @returns Markdown section with totals, per-token rows and caveats
+ */
+export function formatPnLSection(report: PnLReport): string {
+  const totals = `## Performance (${METHOD_LABELS[report.method]})
+- **Realized PnL:** ${formatSignedUsd(report.totalRealizedUsd)}
+- **Unrealized PnL:** ${formatSignedUsd(report.totalUnrealizedUsd)}
+- **Cost Basis of Open Lots:** ${formatUsd(report.totalCostBasisUsd)}
+- **Current Value of Open Lots:** ${formatUsd(report.totalCurrentValueUsd)}${formatRoi(
+    report
+  )}`;
+
+  const traded = report.tokens.filter((t) => t.acquired > 0 || t.disposed > 0);
+  const table = traded.length
+    ? `| Token | Acquired | Disposed | Open | Cost Basis | Value | Realized | Unrealized |
+|-------|----------|----------|------|------------|-------|----------|------------|
+${traded
+  .map(
+    (t) =>
+      `| ${t.symbol} | ${formatAmount(t.acquired)} | ${formatAmount(
+        t.disposed
+      )} | ${formatAmount(t.remaining)} | ${formatUsd(
+        t.costBasisUsd
+      )} | ${formatUsd(t.currentValueUsd)} | ${formatSignedUsd(
+        t.realizedPnlUsd
+      )} | ${formatSignedUsd(t.unrealizedPnlUsd)} |`
+  )
+  .join("\n")}`
+    : "No swaps or incoming transfers found to build cost basis from.";
+
+  const warnings = report.warnings.length
+    ? `### Caveats
+${report.warnings.map((w) => `- ⚠️ ${w}`).join("\n")}`
+    : "";
+
+  return [totals, table, warnings].filter(Boolean).join("\n\n");
+}
+
+function formatRecentDisposals(disposals: RealizedEvent[]): string {
+  if (!disposals.length) return "";
+
+  const rows = disposals
+    .slice()
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, 10)
+    .map(
+      (d) =>
+        `| ${formatDate(d.timestamp)} | ${formatAmount(d.amount)} ${
+          d.symbol
+        } | ${formatUsd(d.proceedsUsd)} | ${formatUsd(
+          d.costBasisUsd
+        )} | ${formatSignedUsd(d.gainUsd)} | ${
+          d.acquiredAt ? formatDate(d.acquiredAt) : "Unknown"
+        } |`
+    )
+    .join("\n");
+
+  return `## Recent Disposals
+| Date | Amount | Proceeds | Cost Basis | Gain | Acquired |
+|------|--------|----------|------------|------|----------|
+${rows}`;
+}
+
+function formatRoi(report: PnLReport): string {
+  if (
+    report.totalUnrealizedUsd === undefined ||
+    !report.totalCostBasisUsd
+  ) {
+    return "";
+  }
+  const roi = (report.totalUnrealizedUsd / report.totalCostBasisUsd) * 100;
+  return `\n- **Open Position ROI:** ${roi >= 0 ? "+" : ""}${roi.toFixed(2)}%`;
+}
+
+function formatSignedUsd(value: number | undefined): string {
+  if (value === undefined) return "N/A";
+  return `${value > 0 ? "+" : ""}${formatUsd(value)}`;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-US", {
+    maximumFractionDigits: amount < 1 ? 6 : 4,
+  });
+}
+
+function formatDate(timestamp: number): string {
+  if (!timestamp) return "N/A";
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,97 @@
+import {
+  Portfolio,
+  PortfolioFlows,
+  WalletProfile,
+} from "../types/interfaces";
+import { RISK_EMOJI } from "../config/constants";
+import { formatAddress } from "../services/labels";
+
+/**
+ * Formats the header of a portfolio analysis report, replacing the
+ * single-wallet header of formatWalletAnalysis
+ * @param portfolio The analyzed portfolio
+ * @param profile Profile built from the merged member activity
+ * @param flows External and internal token flows of the portfolio
+ * @returns Markdown header with members and flow summary
+ */
+export function formatPortfolioHeader(
+  portfolio: Portfolio,
+  profile: WalletProfile,
+  flows: PortfolioFlows
+): string {
+  const header = `# Portfolio Analysis Report: ${portfolio.name} ${
+    RISK_EMOJI[profile.riskProfile]
+  }
+${portfolio.description ? `\n${portfolio.description}\n` : ""}
+**Member Wallets:** ${portfolio.addresses.length}
+${portfolio.addresses
+  .map((address) => `- ${formatAddress(address, { full: true })}`)
+  .join("\n")}
+
+**Risk Profile:** ${profile.riskProfile.toUpperCase()}
+**Portfolio Diversification Score:** ${profile.portfolioDiversification}/100`;
+
+  return `${header}
+
+${formatFlows(flows)}`;
+}
+
+/**
+ * Formats the list of saved portfolios
+ */
+export function formatPortfolioList(portfolios: Portfolio[]): string {
+  if (!portfolios.length) {
+    return `# Portfolios
+No portfolios saved yet. Use savePortfolio to group wallet addresses.`;
+  }
+
+  return `# Portfolios
+${portfolios
+  .map(
+    (p) => `
+## ${p.name}
+${p.description ? `${p.description}\n` : ""}${p.addresses
+      .map((address) => `- ${formatAddress(address, { full: true })}`)
+      .join("\n")}`
+  )
+  .join("\n")}`;
+}
+
+function formatFlows(flows: PortfolioFlows): string {
+  const moved = flows.tokens.filter(
+    (t) => t.inflow > 0 || t.outflow > 0 || t.internal > 0
+  );
+
+  const summary = `## Portfolio Flows
+**Internal Transfers:** ${flows.internalTransfers}
+**Transactions Shared Between Members:** ${flows.sharedTransactions}`;
+
+  if (!moved.length) {
+    return `${summary}
+
+No token movements found.`;
+  }
+
+  return `${summary}
+
+Moves between member wallets are excluded from inflows, outflows and volume.
+
+| Token | Inflow | Outflow | Net | Internal |
+|-------|--------|---------|-----|----------|
+${moved
+  .map(
+    (t) =>
+      `| ${t.symbol} | ${formatAmount(t.inflow)} | ${formatAmount(
+        t.outflow
+      )} | ${formatAmount(t.inflow - t.outflow)} | ${formatAmount(
+        t.internal
+      )} |`
+  )
+  .join("\n")}`;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-US", {
+    maximumFractionDigits: Math.abs(amount) < 1 ? 6 : 4,
+  });
+}
@@ -0,0 +1,97 @@
+import { PortfolioHistory } from "../types/interfaces";
+import { formatUsd } from "../utils/currency";
+import { formatAddress } from "../services/labels";
+
+// Keep the markdown readable; the JSON series always has every bucket and token
+const MAX_TABLE_TOKENS = 8;
+const MAX_TABLE_ROWS = 60;
+
+/**
+ * Formats a reconstructed balance history into a markdown table
+ * @param history Per-bucket balances and values
+ * @returns Formatted markdown string with one row per bucket
+ */
+export function formatPortfolioHistory(history: PortfolioHistory): string {
+  const header = `# Portfolio History
+
+**Wallet Address:** ${formatAddress(history.address, { full: true })}
+**Interval:** ${history.interval}
+**Range:** ${formatTime(history.start, history.interval, false)} to ${formatTime(
+    history.end,
+    history.interval
+  )}
+
+Balances are shown as of the end of each ${
+    history.interval === "daily" ? "day" : "hour"
+  }.`;
+
+  if (!history.snapshots.length || !history.tokens.length) {
+    return `${header}
+
+No balances found in the requested range.`;
+  }
+
+  // Show the tokens with the largest peak balances first
+  const peak = (mint: string) =>
+    Math.max(...history.snapshots.map((s) => s.balances[mint] || 0));
+  const tokens = history.tokens
+    .slice()
+    .sort((a, b) => peak(b.mint) - peak(a.mint))
+    .slice(0, MAX_TABLE_TOKENS);
+  const hasValues = history.snapshots.some((s) => s.valueUsd !== undefined);
+
+  const rows = history.snapshots
+    .slice(-MAX_TABLE_ROWS)
+    .map(
+      (s) =>
+        `| ${formatTime(s.timestamp, history.interval)} | ${tokens
+          .map((t) => formatAmount(s.balances[t.mint] || 0))
+          .join(" | ")} |${
+          hasValues
+            ? ` ${formatUsd(s.valueUsd)}${s.unpricedMints.length ? "*" : ""} |`
+            : ""
+        }`
+    )
+    .join("\n");
+
+  const columns = ["Time", ...tokens.map((t) => t.symbol)];
+  if (hasValues) columns.push("Total Value");
+
+  const notes = [
+    history.snapshots.length > MAX_TABLE_ROWS
+      ? `Showing the latest ${MAX_TABLE_ROWS} of ${history.snapshots.length} buckets.`
+      : "",
+    history.tokens.length > MAX_TABLE_TOKENS
+      ? `Showing ${MAX_TABLE_TOKENS} of ${history.tokens.length} tokens.`
+      : "",
+    hasValues && history.snapshots.some((s) => s.unpricedMints.length)
+      ? "\\* Excludes tokens without a price at that time."
+      : "",
+    ...history.warnings.map((w) => `⚠️ ${w}`),
+  ].filter(Boolean);
+
+  return `${header}
+
+## Balances
+| ${columns.join(" | ")} |
+|${columns.map(() => "---").join("|")}|
+${rows}${notes.length ? `\n\n${notes.map((n) => `- ${n}`).join("\n")}` : ""}`;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-US", {
+    maximumFractionDigits: amount < 1 ? 6 : 4,
+  });
+}
+
+function formatTime(
+  timestamp: number,
+  interval: PortfolioHistory["interval"],
+  bucketEnd = true
+): string {
+  if (interval === "daily") {
+    // Day buckets end at the next midnight, so label them with the day they cover
+    return new Date(bucketEnd ? timestamp - 1 : timestamp).toISOString().slice(0, 10);
+  }
+  return `${new Date(timestamp).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
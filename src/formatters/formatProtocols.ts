@@ -0,0 +1,35 @@
+import { ProtocolDefinition } from "../types/interfaces";
+
+/**
+ * Formats registered protocols into a markdown report
+ * @param protocols Protocols to list, in registry order
+ * @param category Category filter that was applied, if any
+ * @returns Formatted markdown string with one row per protocol
+ */
+export function formatProtocolList(
+  protocols: ProtocolDefinition[],
+  category?: string
+): string {
+  const title = `# Registered Protocols${category ? ` (${category})` : ""}`;
+
+  if (!protocols.length) {
+    return `${title}
+No protocols registered${category ? " in this category" : ""}.`;
+  }
+
+  const rows = protocols
+    .map(
+      (p) =>
+        `| ${p.emoji} ${p.name} | \`${p.id}\` | ${p.category} | ${p.programIds
+          .map((id) => `\`${id}\``)
+          .join("<br>")} | ${p.website || "-"} |`
+    )
+    .join("\n");
+
+  return `${title}
+**Total:** ${protocols.length}
+
+| Protocol | ID | Category | Program IDs | Website |
+|----------|----|----------|-------------|---------|
+${rows}`;
+}
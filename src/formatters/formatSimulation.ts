@@ -0,0 +1,159 @@
+import {
+  RiskLevel,
+  SimulatedBalanceChange,
+  SimulationResult,
+} from "../types/interfaces";
+import { formatUsdSuffix } from "../utils/currency";
+import { formatAddress } from "../services/labels";
+
+const RISK_EMOJI: Record<RiskLevel, string> = {
+  high: "🔴",
+  medium: "🟠",
+  low: "🟡",
+};
+
+// Logs beyond this are cut from the report; the JSON result keeps them all
+const MAX_LOG_LINES = 50;
+
+/**
+ * Formats a transaction simulation into a readable markdown report, laid out
+ * like the transaction details report
+ * @param simulation Simulation result to format
+ * @returns Formatted markdown string
+ */
+export function formatSimulation(simulation: SimulationResult): string {
+  return [
+    formatBasicInfo(simulation),
+    formatRiskWarnings(simulation),
+    formatBalanceChanges(simulation),
+    formatProgramInteraction(simulation),
+    formatLogs(simulation),
+    formatSecurityConsiderations(),
+  ].join("\n\n");
+}
+
+/**
+ * Formats the basic information section
+ */
+function formatBasicInfo(simulation: SimulationResult): string {
+  const statusEmoji = simulation.status === "Success" ? "✅" : "❌";
+  const error = simulation.error ? `\n**Error:** \`${simulation.error}\`` : "";
+  const fee =
+    simulation.fee !== undefined
+      ? `${simulation.fee} SOL${formatUsdSuffix(simulation.feeUsd)}`
+      : "Unknown";
+  const units =
+    simulation.unitsConsumed !== undefined
+      ? `\n**Compute Units:** ${simulation.unitsConsumed.toLocaleString("en-US")}`
+      : "";
+
+  return `# Transaction Simulation ${statusEmoji}
+
+## Basic Information
+**Status:** ${simulation.status === "Success" ? "Would succeed" : "Would fail"}${error}
+**Version:** ${simulation.version}
+**Fee Payer:** ${formatAddress(simulation.feePayer, { full: true })}
+**Signers:** ${simulation.signers.map((s) => formatAddress(s, { full: true })).join(", ")}
+**Transaction Fee:** ${fee}${units}`;
+}
+
+/**
+ * Formats the risk warnings section
+ */
+function formatRiskWarnings(simulation: SimulationResult): string {
+  if (!simulation.warnings.length) {
+    return `## Risk Warnings
+No risky authority changes, approvals or unknown programs detected.`;
+  }
+
+  return `## Risk Warnings
+${simulation.warnings
+  .map((w) => `- ${RISK_EMOJI[w.level]} **${w.level.toUpperCase()}:** ${w.message}`)
+  .join("\n")}`;
+}
+
+/**
+ * Formats the balance changes section, grouped by wallet
+ */
+function formatBalanceChanges(simulation: SimulationResult): string {
+  if (simulation.status !== "Success") {
+    return `## Balance Changes
+No balance changes: the transaction fails in simulation.`;
+  }
+  if (!simulation.balanceChanges.length) {
+    return `## Balance Changes
+No SOL or token balance changes.`;
+  }
+
+  const byOwner = new Map<string, SimulatedBalanceChange[]>();
+  for (const change of simulation.balanceChanges) {
+    byOwner.set(change.owner, [...(byOwner.get(change.owner) || []), change]);
+  }
+
+  return `## Balance Changes
+${Array.from(byOwner.entries())
+  .map(([owner, changes]) => {
+    const role = simulation.signers.includes(owner) ? " (signer)" : "";
+    return `### ${formatAddress(owner)}${role}
+${changes
+  .map(
+    (c) =>
+      `- **${c.symbol}:** ${c.change > 0 ? "+" : ""}${formatAmount(
+        c.change
+      )} (${formatAmount(c.before)} → ${formatAmount(c.after)})`
+  )
+  .join("\n")}`;
+  })
+  .join("\n\n")}`;
+}
+
+/**
+ * Formats the program interaction section
+ */
+function formatProgramInteraction(simulation: SimulationResult): string {
+  return `## Program Interaction
+${simulation.programIds
+  .map(
+    (program) =>
+      `- ${formatAddress(program.id, { full: true })}${
+        program.known ? "" : " (Unknown Program) ⚠️"
+      }`
+  )
+  .join("\n")}`;
+}
+
+/**
+ * Formats the simulation logs section
+ */
+function formatLogs(simulation: SimulationResult): string {
+  if (!simulation.logs.length) return "## Logs\nNo logs returned.";
+
+  const logs = simulation.logs.slice(0, MAX_LOG_LINES);
+  const truncated =
+    simulation.logs.length > MAX_LOG_LINES
+      ? `\n... ${simulation.logs.length - MAX_LOG_LINES} more lines`
+      : "";
+
+  return `## Logs
+\`\`\`
+${logs.join("\n")}${truncated}
+\`\`\``;
+}
+
+/**
+ * Formats the security considerations section
+ */
+function formatSecurityConsiderations(): string {
+  return `## Security Considerations
+- Simulation runs against current state; the outcome can change before the transaction lands
+- Confirm every program ID and counterparty matches what the dApp claims
+- Reject transactions with unexpected approvals or authority changes
+
+*This analysis is based on a simulation and is provided for informational purposes only.*`;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-US", {
+    maximumFractionDigits: Math.abs(amount) < 1 ? 9 : 4,
+  });
+}
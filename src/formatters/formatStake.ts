@@ -0,0 +1,135 @@
+import { StakeAccount, StakeActivationState, StakeOverview } from "../types/interfaces";
+import { formatAddress } from "../services/labels";
+
+const STATE_EMOJI: Record<StakeActivationState, string> = {
+  active: "🟢",
+  activating: "🌱",
+  deactivating: "🍂",
+  inactive: "⚪",
+};
+
+/**
+ * Formats a wallet's native stake accounts and their inflation rewards
+ * @param overview Stake accounts found for the wallet
+ * @param rewardEpochs Number of epochs rewards were requested for
+ * @returns Formatted markdown string with one section per stake account
+ */
+export function formatStakeAccounts(
+  overview: StakeOverview,
+  rewardEpochs: number
+): string {
+  const accounts = overview.accounts;
+  const totalStaked = accounts.reduce((sum, a) => sum + a.balance, 0);
+  const totalRewards = accounts.reduce(
+    (sum, a) => sum + a.rewards.reduce((r, reward) => r + reward.amount, 0),
+    0
+  );
+
+  const header = `# Native Stake Accounts
+
+**Wallet Address:** ${formatAddress(overview.address, { full: true })}
+**Current Epoch:** ${overview.currentEpoch}
+**Stake Accounts:** ${accounts.length}
+**Total Staked:** ${formatSol(totalStaked)} SOL${
+    rewardEpochs > 0
+      ? `\n**Rewards (last ${rewardEpochs} epochs):** ${formatSol(totalRewards)} SOL`
+      : ""
+  }`;
+
+  if (!accounts.length) {
+    return `${header}
+
+No stake accounts found with this wallet as staker or withdrawer.`;
+  }
+
+  const warnings = overview.warnings.length
+    ? `\n\n${overview.warnings.map((w) => `⚠️ ${w}`).join("\n")}`
+    : "";
+
+  return `${header}
+
+${accounts
+  .map((account) => formatAccount(account, overview.address, rewardEpochs))
+  .join("\n\n")}${warnings}`;
+}
+
+function formatAccount(
+  account: StakeAccount,
+  wallet: string,
+  rewardEpochs: number
+): string {
+  const authority = (address: string) =>
+    `${formatAddress(address, { full: true })}${
+      address === wallet ? " (this wallet)" : ""
+    }`;
+
+  const validator = account.validator
+    ? `${formatAddress(account.validator, { full: true })}${
+        account.validatorCommission !== undefined
+          ? ` (${account.validatorCommission}% commission)`
+          : ""
+      }${account.validatorDelinquent ? " ⚠️ delinquent" : ""}`
+    : "Not delegated";
+
+  const epochs = [
+    account.activationEpoch !== undefined
+      ? `activated in ${account.activationEpoch}`
+      : "",
+    account.deactivationEpoch !== undefined
+      ? `deactivated in ${account.deactivationEpoch}`
+      : "",
+  ].filter(Boolean);
+
+  const lines = [
+    `### ${STATE_EMOJI[account.state]} ${formatAddress(account.address, { full: true })}`,
+    `- **Balance:** ${formatSol(account.balance)} SOL${
+      account.delegatedStake !== undefined
+        ? ` (${formatSol(account.delegatedStake)} SOL delegated)`
+        : ""
+    }`,
+    `- **State:** ${account.state}${epochs.length ? ` (${epochs.join(", ")})` : ""}`,
+    `- **Validator:** ${validator}`,
+    `- **Staker:** ${authority(account.staker)}`,
+    `- **Withdrawer:** ${authority(account.withdrawer)}`,
+    `- **Lockup:** ${formatLockup(account)}`,
+  ];
+
+  if (rewardEpochs > 0) {
+    lines.push(
+      account.rewards.length
+        ? `
+| Epoch | Reward | Balance After | Commission |
+|-------|--------|---------------|------------|
+${account.rewards
+  .map(
+    (r) =>
+      `| ${r.epoch} | ${formatSol(r.amount)} SOL | ${formatSol(
+        r.postBalance
+      )} SOL | ${r.commission !== undefined ? `${r.commission}%` : "-"} |`
+  )
+  .join("\n")}`
+        : "- **Rewards:** None in the requested epochs"
+    );
+  }
+
+  return lines.join("\n");
+}
+
+function formatLockup(account: StakeAccount): string {
+  const { lockup } = account;
+  if (!lockup.inForce) return "None";
+
+  const until = [
+    lockup.unixTimestamp > Date.now()
+      ? new Date(lockup.unixTimestamp).toISOString().slice(0, 10)
+      : "",
+    lockup.epoch > 0 ? `epoch ${lockup.epoch}` : "",
+  ].filter(Boolean);
+  return `🔒 Until ${until.join(" / ")} (custodian ${formatAddress(lockup.custodian, { full: true })})`;
+}
+
+function formatSol(amount: number): string {
+  return amount.toLocaleString("en-US", {
+    maximumFractionDigits: amount < 1 ? 9 : 4,
+  });
+}
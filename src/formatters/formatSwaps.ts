@@ -0,0 +1,112 @@
+import {
+  WalletActivity,
+  SwapDetails,
+  SwapPairSummary,
+  ActivityPage,
+} from "../types/interfaces";
+import { protocolRegistry } from "../services/protocolRegistry";
+import { formatUsd, formatUsdSuffix } from "../utils/currency";
+import { formatAddress } from "../services/labels";
+
+/**
+ * Formats decoded swaps and their per-pair summary into a markdown report
+ * @param swaps Activities with decoded swaps, most recent first
+ * @param pairs Per-pair summaries of those swaps
+ * @param walletAddress The address of the wallet being reported on
+ * @param page Optional paging state used to render a continuation cursor
+ * @returns Formatted markdown string with swap history
+ */
+export function formatSwapHistory(
+  swaps: WalletActivity[],
+  pairs: SwapPairSummary[],
+  walletAddress: string,
+  page?: Pick<ActivityPage, "nextCursor" | "hasMore">
+): string {
+  const header = `# Swap History
+
+**Wallet Address:** ${formatAddress(walletAddress, { full: true })}
+**Swaps Found:** ${swaps.length}`;
+
+  if (!swaps.length) {
+    return [header, "No swaps found in the requested range.", formatPagination(page)]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  const pairRows = pairs
+    .map(
+      (p) =>
+        `| ${p.pair} | ${p.count} | ${formatAmount(p.totalInput)} ${
+          p.inputSymbol
+        } | ${formatAmount(p.totalOutput)} ${p.outputSymbol} | ${formatAmount(
+          p.averagePrice
+        )} | ${formatUsd(p.totalUsdValue)} | ${p.venues
+          .map((v) => protocolRegistry.getName(v))
+          .join(", ")} |`
+    )
+    .join("\n");
+
+  const pairSummary = `## Pair Summary
+| Pair | Swaps | Total In | Total Out | Avg Price | Volume (USD) | Venues |
+|------|-------|----------|-----------|-----------|--------------|--------|
+${pairRows}`;
+
+  const swapRows = swaps
+    .filter((activity) => activity.swap)
+    .map((activity) => {
+      const swap = activity.swap!;
+      return `| ${formatDate(activity.timestamp)} | ${formatSwapLine(
+        swap
+      )} | ${formatAmount(swap.price)} | ${swap.route
+        .map((id) => protocolRegistry.getName(id))
+        .join(" → ")} | ${swap.networkFee.toFixed(6)} SOL | \`${
+        activity.signature
+      }\` |`;
+    })
+    .join("\n");
+
+  const swapList = `## Swaps
+| Time | Trade | Price | Route | Network Fee | Signature |
+|------|-------|-------|-------|-------------|-----------|
+${swapRows}`;
+
+  return [header, pairSummary, swapList, formatPagination(page)]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Formats a swap as "1.5 SOL → 210.3 USDC via Jupiter (≈ $210.30)"
+ */
+export function formatSwapLine(swap: SwapDetails): string {
+  return `${formatAmount(swap.inputAmount)} ${swap.inputSymbol} → ${formatAmount(
+    swap.outputAmount
+  )} ${swap.outputSymbol} via ${protocolRegistry.getName(
+    swap.venue
+  )}${formatUsdSuffix(swap.usdValue)}`;
+}
+
+function formatPagination(
+  page?: Pick<ActivityPage, "nextCursor" | "hasMore">
+): string {
+  if (!page?.nextCursor) return "";
+  return `## Pagination
+**Next Cursor:** \`${page.nextCursor}\`
+Pass this signature as \`before\` to scan older transactions for swaps.`;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-US", {
+    maximumFractionDigits: amount < 1 ? 6 : 4,
+  });
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,68 @@
+import { TaxExportResult, TaxEventKind } from "../types/interfaces";
+import { formatUsd } from "../utils/currency";
+import { formatAddress } from "../services/labels";
+
+const KIND_LABELS: Record<TaxEventKind, string> = {
+  trade: "Trades",
+  income: "Income",
+  fee: "Fees",
+  transfer_in: "Transfers In",
+  transfer_out: "Transfers Out",
+};
+
+/**
+ * Formats a summary of an exported tax event file
+ * @param result The written file and its events
+ * @param walletAddress The address of the exported wallet
+ * @returns Formatted markdown string with event counts and a preview
+ */
+export function formatTaxExport(
+  result: TaxExportResult,
+  walletAddress: string
+): string {
+  const { events } = result;
+  const header = `# Tax Event Export
+
+**Wallet Address:** ${formatAddress(walletAddress, { full: true })}
+**Layout:** ${result.layout}
+**File:** \`${result.filePath}\`
+**Events:** ${events.length}`;
+
+  if (!events.length) {
+    return `${header}
+
+No taxable events found in the requested range.`;
+  }
+
+  const period = `**Period:** ${formatDate(events[0].timestamp)} to ${formatDate(
+    events[events.length - 1].timestamp
+  )}`;
+
+  const counts = Object.entries(KIND_LABELS)
+    .map(([kind, label]) => {
+      const matching = events.filter((e) => e.kind === kind);
+      if (!matching.length) return "";
+      const priced = matching.filter((e) => e.usdValue !== undefined);
+      const total = priced.length
+        ? priced.reduce((sum, e) => sum + (e.usdValue || 0), 0)
+        : undefined;
+      return `- ${label}: ${matching.length} (${formatUsd(total)})`;
+    })
+    .filter(Boolean)
+    .join("\n");
+
+  const unpriced = events.filter((e) => e.usdValue === undefined).length;
+  const caveat = unpriced
+    ? `\n\n*${unpriced} event(s) have no USD value; the tax tool will need to price them.*`
+    : "";
+
+  return `${header}
+${period}
+
+## Event Summary
+${counts}${caveat}`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
@@ -1,5 +1,7 @@
 import { TransactionDetails } from "../types/interfaces";
 import { TYPE_EMOJI } from "../config/constants";
+import { formatUsdSuffix } from "../utils/currency";
+import { formatAddress } from "../services/labels";
 
 // Known system program IDs
 const SYSTEM_PROGRAMS = {
@@ -106,7 +108,7 @@ function formatBasicInfo(
 **Status:** ${tx.status}
 **Signature:** \`${tx.signature}\`
 **Timestamp:** ${formattedDate} (${timeAgoStr})
-**Transaction Fee:** ${tx.fee} SOL`;
+**Transaction Fee:** ${tx.fee} SOL${formatUsdSuffix(tx.feeUsd)}`;
 }
 
 /**
@@ -117,7 +119,9 @@ function formatProgramInteraction(tx: TransactionDetails): string {
 ${tx.programIds
   .map(
     (program) =>
-      `- **${program.name || "Unknown Program"}** (\`${program.id}\`)`
+      `- ${formatAddress(program.id, { full: true })}${
+        program.name && program.name !== "Unknown" ? "" : " (Unknown Program)"
+      }`
   )
   .join("\n")}`;
 }
@@ -131,7 +135,10 @@ function formatAccountParticipants(
 ): string {
   return `## Account Participants
 ${tx.accounts
-  .map((account, index) => `- **${accountRoles[index]}**: \`${account}\``)
+  .map(
+    (account, index) =>
+      `- **${accountRoles[index]}**: ${formatAddress(account, { full: true })}`
+  )
   .join("\n")}`;
 }
 
@@ -4,8 +4,15 @@ import {
   DeFiPosition,
   Strategy,
   WalletActivity,
+  TokenHolding,
+  PnLReport,
 } from "../types/interfaces";
-import { RISK_EMOJI, PROTOCOL_EMOJI, TYPE_EMOJI } from "../config/constants";
+import { RISK_EMOJI, TYPE_EMOJI } from "../config/constants";
+import { protocolRegistry } from "../services/protocolRegistry";
+import { formatHoldingsTable } from "./formatHoldings";
+import { formatPnLSection } from "./formatPnL";
+import { formatUsd, formatUsdSuffix } from "../utils/currency";
+import { formatAddress } from "../services/labels";
 
 // Risk assessment thresholds
 const THRESHOLDS = {
@@ -40,6 +47,9 @@ const ACTIVITY_INDICATORS = {
  * @param positions Current DeFi positions
  * @param recommendations Strategy recommendations
  * @param recentActivities Recent wallet activities
+ * @param holdings Current token holdings of the wallet
+ * @param pnl Realized and unrealized PnL, when computed
+ * @param header Report header, replacing the single-wallet one
  * @returns Formatted markdown string
  */
 export function formatWalletAnalysis(
@@ -47,11 +57,16 @@ export function formatWalletAnalysis(
   patterns: TransactionPattern[],
   positions: DeFiPosition[],
   recommendations: Strategy[],
-  recentActivities: WalletActivity[]
+  recentActivities: WalletActivity[],
+  holdings: TokenHolding[],
+  pnl?: PnLReport,
+  header: string = formatHeader(profile)
 ): string {
   // Format each section using dedicated helper functions
   const sections = [
-    formatHeader(profile),
+    header,
+    formatHoldingsTable(holdings),
+    pnl ? formatPnLSection(pnl) : "",
     formatActivityOverview(profile, recentActivities),
     formatBehavioralPatterns(patterns),
     formatDeFiPositions(positions),
@@ -61,7 +76,51 @@ export function formatWalletAnalysis(
   ];
 
   // Join all sections with double newlines
-  return sections.join("\n\n");
+  return sections.filter(Boolean).join("\n\n");
+}
+
+/**
+ * Formats the profile part of the wallet analysis: activity, behavioral
+ * patterns and risk, without holdings, PnL or positions
+ * @param profile Wallet profile information
+ * @param patterns Detected transaction patterns
+ * @param recentActivities Recent wallet activities
+ * @returns Formatted markdown string
+ */
+export function formatWalletProfile(
+  profile: WalletProfile,
+  patterns: TransactionPattern[],
+  recentActivities: WalletActivity[]
+): string {
+  return [
+    formatHeader(profile),
+    formatActivityOverview(profile, recentActivities),
+    formatBehavioralPatterns(patterns),
+    formatRiskAssessment(profile),
+  ].join("\n\n");
+}
+
+/**
+ * Formats a wallet's holdings and DeFi positions
+ * @param address The wallet address
+ * @param positions Current DeFi positions
+ * @param holdings Current token holdings of the wallet
+ * @returns Formatted markdown string
+ */
+export function formatWalletPositions(
+  address: string,
+  positions: DeFiPosition[],
+  holdings: TokenHolding[]
+): string {
+  return [
+    `# Wallet Positions
+
+**Wallet Address:** ${formatAddress(address, { full: true })}`,
+    formatHoldingsTable(holdings),
+    formatDeFiPositions(positions),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
 }
 
 /**
@@ -70,7 +129,7 @@ export function formatWalletAnalysis(
 function formatHeader(profile: WalletProfile): string {
   return `# Wallet Analysis Report ${RISK_EMOJI[profile.riskProfile]}
 
-**Wallet Address:** \`${profile.address}\`
+**Wallet Address:** ${formatAddress(profile.address, { full: true })}
 **Risk Profile:** ${profile.riskProfile.toUpperCase()}
 **Portfolio Diversification Score:** ${profile.portfolioDiversification}/100`;
 }
@@ -99,13 +158,15 @@ function formatActivityOverview(
 **Total Transactions:** ${profile.activityCount}
 **First Activity:** ${formatDate(profile.firstActivityDate)}
 **Last Activity:** ${formatDate(profile.lastActivityDate)}
-**Transaction Volume:** ${profile.transactionVolume.toFixed(2)} SOL`;
+**Transaction Volume:** ${profile.transactionVolume.toFixed(
+    2
+  )} SOL${formatUsdSuffix(profile.transactionVolumeUsd)}`;
 
   const favoriteProtocols = `### Favorite Protocols
 ${profile.favoriteProtocols
   .map((p) => {
-    const emoji = getProtocolEmoji(p.name);
-    return `- ${emoji} ${p.name}: ${p.count} interactions`;
+    const emoji = protocolRegistry.getEmoji(p.name);
+    return `- ${emoji} ${protocolRegistry.getName(p.name)}: ${p.count} interactions`;
   })
   .join("\n")}`;
 
@@ -159,12 +220,6 @@ No active DeFi positions detected.`;
     return value.toFixed(value < 0.01 ? 4 : 2) + " SOL";
   };
 
-  // Format APY display
-  const formatApy = (apy: number | undefined): string => {
-    if (!apy) return "N/A";
-    return apy.toFixed(2) + "%";
-  };
-
   // Format date for better readability
   const formatDate = (timestamp: number) =>
     new Date(timestamp).toLocaleString("en-US", {
@@ -175,6 +230,13 @@ No active DeFi positions detected.`;
       minute: "2-digit",
     });
 
+  // Format APY display with its source, or say explicitly that it is unknown
+  const formatApy = (pos: DeFiPosition): string => {
+    if (pos.apy === undefined) return "Unknown (no APY data available)";
+    const asOf = pos.apyTimestamp ? `, as of ${formatDate(pos.apyTimestamp)}` : "";
+    return `${pos.apy.toFixed(2)}% (source: ${pos.apySource}${asOf})`;
+  };
+
   const positionsContent = positions
     .sort((a, b) => {
       // Sort by protocol name, then by type
@@ -183,12 +245,29 @@ No active DeFi positions detected.`;
       return a.type.localeCompare(b.type);
     })
     .map((pos) => {
-      const protocolEmoji = getProtocolEmoji(pos.protocol);
-
-      return `### ${protocolEmoji} ${pos.protocol} - ${pos.type}
-- Token: ${pos.tokenA || "Multiple"}
-- Value: ${formatValue(pos.value)}
-- APY: ${formatApy(pos.apy)}
+      const protocolEmoji = protocolRegistry.getEmoji(pos.protocol);
+
+      const token = pos.tokenB
+        ? `${pos.tokenA || "Unknown"} / ${pos.tokenB}`
+        : pos.tokenA || "Multiple";
+      const amount =
+        pos.amount !== undefined ? `\n- Amount: ${pos.amount.toFixed(4)}` : "";
+      const value =
+        pos.value === undefined && pos.usdValue !== undefined
+          ? formatUsd(pos.usdValue)
+          : formatValue(pos.value) + formatUsdSuffix(pos.usdValue);
+
+      const stake = pos.validator
+        ? `\n- Validator: ${formatAddress(pos.validator, { full: true })}${pos.state ? ` (${pos.state})` : ""}`
+        : "";
+
+      return `### ${protocolEmoji} ${protocolRegistry.getName(pos.protocol)} - ${pos.type}
+- Token: ${token}${amount}
+- Value: ${value}${stake}
+- APY: ${formatApy(pos)}
+- Source: ${pos.source === "on-chain" ? "Read on-chain" : "Inferred from activity"}${
+        pos.account ? ` (${formatAddress(pos.account, { full: true })})` : ""
+      }
 - Last Updated: ${formatDate(pos.timestamp)}`;
     })
     .join("\n\n");
@@ -294,22 +373,6 @@ function countActivityTypes(
   }, {} as Record<string, number>);
 }
 
-/**
- * Gets an appropriate emoji for a protocol
- */
-function getProtocolEmoji(protocolName: string): string {
-  // Try to match the protocol name with the keys in PROTOCOL_EMOJI
-  const key = Object.keys(PROTOCOL_EMOJI).find((k) =>
-    protocolName.toUpperCase().includes(k.replace("_", " "))
-  );
-
-  if (key && key in PROTOCOL_EMOJI) {
-    return PROTOCOL_EMOJI[key as keyof typeof PROTOCOL_EMOJI];
-  }
-
-  return "🔹"; // Default emoji if no match found
-}
-
 /**
  * Gets an appropriate emoji for a confidence level
  */
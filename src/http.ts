@@ -0,0 +1,128 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+    host: string;
+    port: number;
+    // Bearer token required on every request when set
+    authToken?: string;
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp. Every client session gets its own
+ * server and transport, created on the initialize request and dropped when
+ * the client deletes the session or disconnects.
+ */
+export async function startHttpServer(createServer: () => McpServer, options: HttpServerOptions): Promise<http.Server> {
+    const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+    const httpServer = http.createServer(async (req, res) => {
+        try {
+            const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+            if (url.pathname !== MCP_PATH) {
+                return sendError(res, 404, -32601, `Not found; the MCP endpoint is ${MCP_PATH}`);
+            }
+            if (options.authToken && !isAuthorized(req, options.authToken)) {
+                res.setHeader("WWW-Authenticate", "Bearer");
+                return sendError(res, 401, -32001, "Unauthorized");
+            }
+
+            const sessionId = req.headers["mcp-session-id"];
+            const existing = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+
+            if (req.method !== "POST") {
+                // GET opens the server-to-client stream, DELETE ends the session
+                if (!existing) return sendError(res, 400, -32000, "Missing or unknown session ID");
+                return await existing.handleRequest(req, res);
+            }
+
+            const body = await readJsonBody(req);
+            if (existing) {
+                return await existing.handleRequest(req, res, body);
+            }
+            if (sessionId !== undefined || !isInitializeRequest(body)) {
+                return sendError(res, 400, -32000, "Missing or unknown session ID");
+            }
+
+            const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                onsessioninitialized: (id) => {
+                    sessions.set(id, transport);
+                },
+            });
+            transport.onclose = () => {
+                if (transport.sessionId) sessions.delete(transport.sessionId);
+            };
+
+            await createServer().connect(transport);
+            await transport.handleRequest(req, res, body);
+        } catch (error) {
+            console.error("Error handling MCP HTTP request:", error);
+            if (!res.headersSent) {
+                const invalidBody = error instanceof SyntaxError || error instanceof RequestTooLargeError;
+                sendError(
+                    res,
+                    invalidBody ? 400 : 500,
+                    invalidBody ? -32700 : -32603,
+                    error instanceof Error ? error.message : "Internal error"
+                );
+            }
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(options.port, options.host, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+
+    const shutdown = async () => {
+        for (const transport of Array.from(sessions.values())) {
+            await transport.close().catch(() => undefined);
+        }
+        httpServer.close();
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+
+    return httpServer;
+}
+
+class RequestTooLargeError extends Error {}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+    const header = req.headers.authorization || "";
+    const [scheme, value] = header.split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !value) return false;
+
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(value);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new RequestTooLargeError(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { "Content-Type": "application/json" }).end(
+        JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null })
+    );
+}
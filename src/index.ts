@@ -1,66 +1,313 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import "dotenv/config";
+import { TRANSPORT_CONFIG } from "./config/constants";
+import { startHttpServer } from "./http";
 import { fetchWalletActivityTool } from "./tools/fetchWalletActivity";
 import { analyzeWalletTool } from "./tools/analyzeWallet";
 import { getTransactionDetailsTool } from "./tools/getTransactionDetails";
+import { getWalletHoldingsTool } from "./tools/getWalletHoldings";
+import { listProtocolsTool } from "./tools/listProtocols";
+import { getSwapHistoryTool } from "./tools/getSwapHistory";
+import { getWalletPnLTool } from "./tools/getWalletPnL";
+import { exportTaxEventsTool } from "./tools/exportTaxEvents";
+import { getPortfolioHistoryTool } from "./tools/getPortfolioHistory";
+import { savePortfolioTool } from "./tools/savePortfolio";
+import { listPortfoliosTool } from "./tools/listPortfolios";
+import { deletePortfolioTool } from "./tools/deletePortfolio";
+import { analyzePortfolioTool } from "./tools/analyzePortfolio";
+import { compareWalletsTool } from "./tools/compareWallets";
+import { getCounterpartiesTool } from "./tools/getCounterparties";
+import { getWalletNftsTool } from "./tools/getWalletNfts";
+import { getStakeAccountsTool } from "./tools/getStakeAccounts";
+import { simulateTransactionTool } from "./tools/simulateTransaction";
+import { getTokenApprovalsTool } from "./tools/getTokenApprovals";
+import { saveAddressLabelTool } from "./tools/saveAddressLabel";
+import { listAddressLabelsTool } from "./tools/listAddressLabels";
+import { deleteAddressLabelTool } from "./tools/deleteAddressLabel";
+import { resources } from "./resources/walletResources";
+import { enableResourceSubscriptions } from "./resources/subscriptions";
 
-const server = new McpServer({
-	name: "Portfolio Tracker",
-	version: "1.0.0",
-})
-
-server.tool(
-	fetchWalletActivityTool.name,
-	fetchWalletActivityTool.description,
-	fetchWalletActivityTool.parameters,
-	async (args, extra) => {
-		const result = await fetchWalletActivityTool.execute(args);
-		return {
-			...result,
-			content: result.content.map(item => ({
-				...item,
-				type: "text" as const
-			}))
-		};
-	}
-);
-
-server.tool(
-	analyzeWalletTool.name,
-	analyzeWalletTool.description,
-	analyzeWalletTool.parameters,
-	async (args, extra) => {
-		const result = await analyzeWalletTool.execute(args);
-		return {
-			...result,
-			content: result.content.map(item => ({
-				...item,
-				type: "text" as const
-			}))
-		};
-	}
-);
-
-server.tool(
-	getTransactionDetailsTool.name,
-	getTransactionDetailsTool.description,
-	getTransactionDetailsTool.parameters,
-	async (args, extra) => {
-		const result = await getTransactionDetailsTool.execute(args);
-		return {
-			...result,
-			content: result.content.map(item => ({
-				...item,
-				type: "text" as const
-			}))
-		};
+/**
+ * Creates an MCP server with every tool and resource registered. Each HTTP
+ * session gets its own server; tools, caches and stores are module singletons
+ * and so are shared.
+ */
+function createServer(): McpServer {
+	const server = new McpServer({
+		name: "Portfolio Tracker",
+		version: "1.0.0",
+	});
+
+	server.registerTool(
+		fetchWalletActivityTool.name,
+		{
+			description: fetchWalletActivityTool.description,
+			inputSchema: fetchWalletActivityTool.parameters,
+			outputSchema: fetchWalletActivityTool.outputSchema,
+		},
+		async (args) => fetchWalletActivityTool.execute(args)
+	);
+
+	server.registerTool(
+		analyzeWalletTool.name,
+		{
+			description: analyzeWalletTool.description,
+			inputSchema: analyzeWalletTool.parameters,
+			outputSchema: analyzeWalletTool.outputSchema,
+		},
+		async (args) => analyzeWalletTool.execute(args)
+	);
+
+	server.registerTool(
+		getTransactionDetailsTool.name,
+		{
+			description: getTransactionDetailsTool.description,
+			inputSchema: getTransactionDetailsTool.parameters,
+			outputSchema: getTransactionDetailsTool.outputSchema,
+		},
+		async (args) => getTransactionDetailsTool.execute(args)
+	);
+
+	server.registerTool(
+		getWalletHoldingsTool.name,
+		{
+			description: getWalletHoldingsTool.description,
+			inputSchema: getWalletHoldingsTool.parameters,
+			outputSchema: getWalletHoldingsTool.outputSchema,
+		},
+		async (args) => getWalletHoldingsTool.execute(args)
+	);
+
+	server.registerTool(
+		listProtocolsTool.name,
+		{
+			description: listProtocolsTool.description,
+			inputSchema: listProtocolsTool.parameters,
+			outputSchema: listProtocolsTool.outputSchema,
+		},
+		async (args) => listProtocolsTool.execute(args)
+	);
+
+	server.registerTool(
+		getSwapHistoryTool.name,
+		{
+			description: getSwapHistoryTool.description,
+			inputSchema: getSwapHistoryTool.parameters,
+			outputSchema: getSwapHistoryTool.outputSchema,
+		},
+		async (args) => getSwapHistoryTool.execute(args)
+	);
+
+	server.registerTool(
+		getWalletPnLTool.name,
+		{
+			description: getWalletPnLTool.description,
+			inputSchema: getWalletPnLTool.parameters,
+			outputSchema: getWalletPnLTool.outputSchema,
+		},
+		async (args) => getWalletPnLTool.execute(args)
+	);
+
+	server.registerTool(
+		exportTaxEventsTool.name,
+		{
+			description: exportTaxEventsTool.description,
+			inputSchema: exportTaxEventsTool.parameters,
+			outputSchema: exportTaxEventsTool.outputSchema,
+		},
+		async (args) => exportTaxEventsTool.execute(args)
+	);
+
+	server.registerTool(
+		getPortfolioHistoryTool.name,
+		{
+			description: getPortfolioHistoryTool.description,
+			inputSchema: getPortfolioHistoryTool.parameters,
+			outputSchema: getPortfolioHistoryTool.outputSchema,
+		},
+		async (args) => getPortfolioHistoryTool.execute(args)
+	);
+
+	server.registerTool(
+		savePortfolioTool.name,
+		{
+			description: savePortfolioTool.description,
+			inputSchema: savePortfolioTool.parameters,
+			outputSchema: savePortfolioTool.outputSchema,
+		},
+		async (args) => savePortfolioTool.execute(args)
+	);
+
+	server.registerTool(
+		listPortfoliosTool.name,
+		{
+			description: listPortfoliosTool.description,
+			inputSchema: listPortfoliosTool.parameters,
+			outputSchema: listPortfoliosTool.outputSchema,
+		},
+		async (args) => listPortfoliosTool.execute(args)
+	);
+
+	server.registerTool(
+		deletePortfolioTool.name,
+		{
+			description: deletePortfolioTool.description,
+			inputSchema: deletePortfolioTool.parameters,
+			outputSchema: deletePortfolioTool.outputSchema,
+		},
+		async (args) => deletePortfolioTool.execute(args)
+	);
+
+	server.registerTool(
+		analyzePortfolioTool.name,
+		{
+			description: analyzePortfolioTool.description,
+			inputSchema: analyzePortfolioTool.parameters,
+			outputSchema: analyzePortfolioTool.outputSchema,
+		},
+		async (args) => analyzePortfolioTool.execute(args)
+	);
+
+	server.registerTool(
+		compareWalletsTool.name,
+		{
+			description: compareWalletsTool.description,
+			inputSchema: compareWalletsTool.parameters,
+			outputSchema: compareWalletsTool.outputSchema,
+		},
+		async (args) => compareWalletsTool.execute(args)
+	);
+
+	server.registerTool(
+		getCounterpartiesTool.name,
+		{
+			description: getCounterpartiesTool.description,
+			inputSchema: getCounterpartiesTool.parameters,
+			outputSchema: getCounterpartiesTool.outputSchema,
+		},
+		async (args) => getCounterpartiesTool.execute(args)
+	);
+
+	server.registerTool(
+		getWalletNftsTool.name,
+		{
+			description: getWalletNftsTool.description,
+			inputSchema: getWalletNftsTool.parameters,
+			outputSchema: getWalletNftsTool.outputSchema,
+		},
+		async (args) => getWalletNftsTool.execute(args)
+	);
+
+	server.registerTool(
+		getStakeAccountsTool.name,
+		{
+			description: getStakeAccountsTool.description,
+			inputSchema: getStakeAccountsTool.parameters,
+			outputSchema: getStakeAccountsTool.outputSchema,
+		},
+		async (args) => getStakeAccountsTool.execute(args)
+	);
+
+	server.registerTool(
+		simulateTransactionTool.name,
+		{
+			description: simulateTransactionTool.description,
+			inputSchema: simulateTransactionTool.parameters,
+			outputSchema: simulateTransactionTool.outputSchema,
+		},
+		async (args) => simulateTransactionTool.execute(args)
+	);
+
+	server.registerTool(
+		getTokenApprovalsTool.name,
+		{
+			description: getTokenApprovalsTool.description,
+			inputSchema: getTokenApprovalsTool.parameters,
+			outputSchema: getTokenApprovalsTool.outputSchema,
+		},
+		async (args) => getTokenApprovalsTool.execute(args)
+	);
+
+	server.registerTool(
+		saveAddressLabelTool.name,
+		{
+			description: saveAddressLabelTool.description,
+			inputSchema: saveAddressLabelTool.parameters,
+			outputSchema: saveAddressLabelTool.outputSchema,
+		},
+		async (args) => saveAddressLabelTool.execute(args)
+	);
+
+	server.registerTool(
+		listAddressLabelsTool.name,
+		{
+			description: listAddressLabelsTool.description,
+			inputSchema: listAddressLabelsTool.parameters,
+			outputSchema: listAddressLabelsTool.outputSchema,
+		},
+		async (args) => listAddressLabelsTool.execute(args)
+	);
+
+	server.registerTool(
+		deleteAddressLabelTool.name,
+		{
+			description: deleteAddressLabelTool.description,
+			inputSchema: deleteAddressLabelTool.parameters,
+			outputSchema: deleteAddressLabelTool.outputSchema,
+		},
+		async (args) => deleteAddressLabelTool.execute(args)
+	);
+
+	for (const resource of resources) {
+		server.registerResource(
+			resource.name,
+			new ResourceTemplate(resource.uriTemplate, { list: undefined }),
+			{ description: resource.description },
+			async (uri, variables) => resource.read(uri, variables)
+		);
 	}
-);
+	enableResourceSubscriptions(server);
+
+	return server;
+}
+
+/**
+ * Transport settings from TRANSPORT_CONFIG, overridden by the --http,
+ * --host <host> and --port <port> flags
+ */
+function resolveTransportOptions(argv: string[]) {
+	const flag = (name: string) => {
+		const index = argv.indexOf(name);
+		return index !== -1 ? argv[index + 1] : undefined;
+	};
+
+	return {
+		...TRANSPORT_CONFIG,
+		transport: argv.includes("--http") ? "http" : TRANSPORT_CONFIG.transport,
+		host: flag("--host") || TRANSPORT_CONFIG.host,
+		port: Number(flag("--port") || TRANSPORT_CONFIG.port),
+	};
+}
 
 async function main() {
+	const options = resolveTransportOptions(process.argv.slice(2));
+
+	if (options.transport === "http") {
+		if (!Number.isInteger(options.port) || options.port <= 0) {
+			throw new Error(`Invalid HTTP port: ${options.port}`);
+		}
+		await startHttpServer(createServer, options);
+		console.error(
+			`Portfolio MCP server listening on http://${options.host}:${options.port}/mcp${
+				options.authToken ? " (bearer auth)" : ""
+			}`
+		);
+		return;
+	}
+
 	const transport = new StdioServerTransport();
-	await server.connect(transport);
+	await createServer().connect(transport);
 }
 
 main().catch((err: unknown) => {
@@ -0,0 +1,100 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { SUBSCRIPTION_POLL_MS } from "../config/constants";
+import { fetchWalletActivityPage } from "../services/wallet";
+import { walletEvents } from "../services/walletEvents";
+import { parseWalletResourceUri } from "./walletResources";
+
+// Subscribed wallet resources across all sessions, per wallet address
+const watchedWallets = new Map<string, number>();
+let pollTimer: NodeJS.Timeout | undefined;
+let polling = false;
+
+function watchWallet(address: string): void {
+    watchedWallets.set(address, (watchedWallets.get(address) || 0) + 1);
+    if (!pollTimer) {
+        pollTimer = setInterval(pollWatchedWallets, SUBSCRIPTION_POLL_MS);
+        pollTimer.unref();
+    }
+}
+
+function unwatchWallet(address: string): void {
+    const count = (watchedWallets.get(address) || 0) - 1;
+    if (count > 0) watchedWallets.set(address, count);
+    else watchedWallets.delete(address);
+
+    if (watchedWallets.size === 0 && pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = undefined;
+    }
+}
+
+/**
+ * Syncs every watched wallet; a sync that finds new signatures emits the
+ * wallet event that notifies subscribers
+ */
+async function pollWatchedWallets(): Promise<void> {
+    if (polling) return;
+    polling = true;
+    try {
+        for (const address of Array.from(watchedWallets.keys())) {
+            await fetchWalletActivityPage(address, 1).catch((error) => {
+                console.error(`Error syncing subscribed wallet ${address}:`, error);
+            });
+        }
+    } finally {
+        polling = false;
+    }
+}
+
+/**
+ * Lets the server's client subscribe to resources. Subscribers to a
+ * `solana-wallet://` resource get a resources/updated notification whenever
+ * a sync finds new activity for that wallet, and subscribed wallets are synced
+ * every SUBSCRIPTION_POLL_MS. Transactions never change, so `solana-tx://`
+ * subscriptions are accepted but never notified.
+ */
+export function enableResourceSubscriptions(server: McpServer): void {
+    const subscriptions = new Set<string>();
+
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+        if (!subscriptions.has(uri)) {
+            subscriptions.add(uri);
+            const address = parseWalletResourceUri(uri);
+            if (address) watchWallet(address);
+        }
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+        if (subscriptions.delete(uri)) {
+            const address = parseWalletResourceUri(uri);
+            if (address) unwatchWallet(address);
+        }
+        return {};
+    });
+
+    const stopListening = walletEvents.onNewActivity((address) => {
+        for (const uri of Array.from(subscriptions)) {
+            if (parseWalletResourceUri(uri) !== address) continue;
+            server.server.sendResourceUpdated({ uri }).catch((error) => {
+                console.error(`Error notifying resource update for ${uri}:`, error);
+            });
+        }
+    });
+
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+        previousOnClose?.();
+        stopListening();
+        for (const uri of Array.from(subscriptions)) {
+            const address = parseWalletResourceUri(uri);
+            if (address) unwatchWallet(address);
+        }
+        subscriptions.clear();
+    };
+}
@@ -0,0 +1,109 @@
+import { PublicKey } from "@solana/web3.js";
+import { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { fetchWalletActivityPage, fetchWalletTransactions, generateWalletProfile } from "../services/wallet";
+import { fetchWalletHoldings } from "../services/holdings";
+import { fetchTransactionDetails } from "../services/transactionDetails";
+import { detectScamActivity } from "../analyzers/scamAnalyzer";
+import { analyzeTransactionPatterns } from "../analyzers/patternAnalyzer";
+import { analyzeDeFiPositions } from "../analyzers/defiAnalyzer";
+import { formatActivityHistory } from "../formatters/formatActivity";
+import { formatWalletPositions, formatWalletProfile } from "../formatters/formatWallet";
+import { formatTransactionDetails } from "../formatters/formatTransaction";
+
+/**
+ * Every resource is returned twice: as the markdown report the matching tool
+ * shows and as the JSON data behind it
+ */
+function resourceContents(uri: URL, markdown: string, data: unknown): ReadResourceResult {
+    return {
+        contents: [
+            { uri: uri.href, mimeType: "text/markdown", text: markdown },
+            { uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) },
+        ],
+    };
+}
+
+function walletAddress(variables: Variables): string {
+    const address = Array.isArray(variables.address) ? variables.address[0] : variables.address;
+    return new PublicKey(address).toString();
+}
+
+/**
+ * Wallet address of a `solana-wallet://{address}/...` URI
+ * @returns Undefined for any other URI
+ */
+export function parseWalletResourceUri(uri: string): string | undefined {
+    const match = uri.match(/^solana-wallet:\/\/([1-9A-HJ-NP-Za-km-z]{32,44})\/(activity|profile|positions)$/);
+    return match?.[1];
+}
+
+export const walletActivityResource = {
+    name: "walletActivity",
+    uriTemplate: "solana-wallet://{address}/activity",
+    description: "The 20 most recent transactions of a Solana wallet, with scam findings",
+    read: async (uri: URL, variables: Variables): Promise<ReadResourceResult> => {
+        const address = walletAddress(variables);
+        const page = await fetchWalletActivityPage(address, 20);
+        const scamFindings = detectScamActivity(page.activities, address);
+
+        return resourceContents(uri, formatActivityHistory(page.activities, address, page, scamFindings), {
+            activities: page.activities,
+            nextCursor: page.nextCursor,
+            hasMore: page.hasMore,
+            scamFindings,
+        });
+    },
+};
+
+export const walletProfileResource = {
+    name: "walletProfile",
+    uriTemplate: "solana-wallet://{address}/profile",
+    description: "Activity overview, behavioral patterns and risk profile of a Solana wallet",
+    read: async (uri: URL, variables: Variables): Promise<ReadResourceResult> => {
+        const address = walletAddress(variables);
+        const activities = await fetchWalletTransactions(address, 50);
+        const profile = await generateWalletProfile(address, activities);
+        const patterns = analyzeTransactionPatterns(activities, address);
+        const recentActivities = activities.slice(0, 10);
+
+        return resourceContents(uri, formatWalletProfile(profile, patterns, recentActivities), {
+            profile,
+            patterns,
+            recentActivities,
+        });
+    },
+};
+
+export const walletPositionsResource = {
+    name: "walletPositions",
+    uriTemplate: "solana-wallet://{address}/positions",
+    description: "Token holdings and DeFi positions of a Solana wallet",
+    read: async (uri: URL, variables: Variables): Promise<ReadResourceResult> => {
+        const address = walletAddress(variables);
+        const holdings = await fetchWalletHoldings(address);
+        const positions = await analyzeDeFiPositions(address, holdings);
+
+        return resourceContents(uri, formatWalletPositions(address, positions, holdings), {
+            holdings,
+            positions,
+        });
+    },
+};
+
+export const transactionResource = {
+    name: "transaction",
+    uriTemplate: "solana-tx://{signature}",
+    description: "Status, fee, accounts and programs of a Solana transaction",
+    read: async (uri: URL, variables: Variables): Promise<ReadResourceResult> => {
+        const signature = String(variables.signature);
+        const details = await fetchTransactionDetails(signature);
+        if (!details) {
+            throw new Error(`Transaction not found: ${signature}`);
+        }
+
+        return resourceContents(uri, formatTransactionDetails(details), details);
+    },
+};
+
+export const resources = [walletActivityResource, walletProfileResource, walletPositionsResource, transactionResource];
@@ -0,0 +1,240 @@
+import { AccountInfo, ParsedAccountData, ParsedInstruction, PublicKey } from "@solana/web3.js";
+import {
+    NATIVE_MINT,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { connection, delay } from "./connection";
+import { getTokenSymbol } from "./holdings";
+import { addressLabels } from "./labels";
+import { collectInstructions } from "./transaction";
+import { fetchWalletActivityPage } from "./wallet";
+import { rankApprovals } from "../analyzers/approvalAnalyzer";
+import { TokenApproval, TokenApprovalAudit, TokenApprovalKind } from "../types/interfaces";
+
+const U64_MAX = "18446744073709551615";
+
+// getMultipleParsedAccounts accepts at most 100 accounts per call
+const ACCOUNT_BATCH_SIZE = 100;
+
+// SPL token authority types set by setAuthority for each finding
+const AUTHORITY_TYPES: Record<Exclude<TokenApprovalKind, "delegate">, string> = {
+    closeAuthority: "closeAccount",
+    owner: "accountOwner",
+};
+
+type Finding = Omit<TokenApproval, "risk" | "riskScore" | "reasons">;
+
+/**
+ * Audits what other addresses can do with the wallet's tokens: live delegate
+ * approvals and close authorities on the token accounts it owns, and
+ * associated token accounts of the wallet that now belong to someone else.
+ *
+ * Reassigned accounts no longer show up under the wallet, so they are found
+ * by deriving the wallet's associated token accounts for every mint in its
+ * last `limit` transactions. Each finding is linked to the transaction that
+ * granted it by searching the token account's last `searchDepth`
+ * transactions.
+ */
+export async function fetchTokenApprovals(
+    publicKey: string,
+    { limit = 200, searchDepth = 50 }: { limit?: number; searchDepth?: number } = {}
+): Promise<TokenApprovalAudit> {
+    const owner = new PublicKey(publicKey);
+    const [splAccounts, token2022Accounts, page] = await Promise.all([
+        connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID }),
+        connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_2022_PROGRAM_ID }),
+        fetchWalletActivityPage(publicKey, limit),
+    ]);
+    const accounts = [...splAccounts.value, ...token2022Accounts.value];
+
+    const findings: Finding[] = [];
+    for (const { pubkey, account } of accounts) {
+        findings.push(...readAuthorities(pubkey.toString(), account, publicKey));
+    }
+
+    const owned = new Set(accounts.map(({ pubkey }) => pubkey.toString()));
+    const mints = new Set<string>();
+    for (const activity of page.activities) {
+        for (const movement of activity.tokenMovements || []) {
+            if (movement.mint !== NATIVE_MINT.toString()) mints.add(movement.mint);
+        }
+    }
+    findings.push(...(await findReassignedAccounts(owner, Array.from(mints), owned)));
+
+    await markUnlimited(findings.filter((f) => f.kind === "delegate"));
+
+    const warnings: string[] = [];
+    for (const finding of findings) {
+        try {
+            finding.grantedBy = await findGrantingTransaction(finding, searchDepth);
+        } catch (error) {
+            console.error(`Error searching history of ${finding.tokenAccount}:`, error);
+            warnings.push(`Could not search the history of token account ${finding.tokenAccount}.`);
+        }
+    }
+
+    return {
+        address: publicKey,
+        tokenAccountsScanned: accounts.length,
+        approvals: rankApprovals(findings),
+        warnings,
+    };
+}
+
+function readAuthorities(
+    tokenAccount: string,
+    account: AccountInfo<ParsedAccountData>,
+    walletAddress: string
+): Finding[] {
+    const info = account.data.parsed?.info;
+    if (!info?.mint || !info.tokenAmount) return [];
+
+    const finding = (kind: TokenApprovalKind, authority: string): Finding => ({
+        kind,
+        tokenAccount,
+        mint: info.mint,
+        symbol: getTokenSymbol(info.mint),
+        balance: Number(info.tokenAmount.amount) / Math.pow(10, info.tokenAmount.decimals),
+        authority,
+        ...labelAuthority(authority),
+    });
+
+    const findings: Finding[] = [];
+    if (info.delegate && info.delegatedAmount) {
+        findings.push({
+            ...finding("delegate", info.delegate),
+            delegatedAmount: Number(info.delegatedAmount.amount) / Math.pow(10, info.delegatedAmount.decimals),
+            unlimited: info.delegatedAmount.amount === U64_MAX,
+        });
+    }
+    if (info.owner !== walletAddress) {
+        findings.push(finding("owner", info.owner));
+    }
+    if (info.closeAuthority && info.closeAuthority !== walletAddress) {
+        findings.push(finding("closeAuthority", info.closeAuthority));
+    }
+    return findings;
+}
+
+function labelAuthority(authority: string): Pick<TokenApproval, "authorityLabel" | "known"> {
+    const { label, labelSource } = addressLabels.resolve(authority);
+    return { authorityLabel: label, known: labelSource !== "unknown" };
+}
+
+/**
+ * Associated token accounts derived for the wallet that exist but are owned
+ * by another address, along with any delegates or close authorities on them
+ */
+async function findReassignedAccounts(owner: PublicKey, mints: string[], owned: Set<string>): Promise<Finding[]> {
+    const addresses: PublicKey[] = [];
+    for (const mint of mints) {
+        for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+            const address = getAssociatedTokenAddressSync(new PublicKey(mint), owner, true, programId);
+            if (!owned.has(address.toString())) addresses.push(address);
+        }
+    }
+
+    const findings: Finding[] = [];
+    for (let i = 0; i < addresses.length; i += ACCOUNT_BATCH_SIZE) {
+        const batch = addresses.slice(i, i + ACCOUNT_BATCH_SIZE);
+        const { value } = await connection.getMultipleParsedAccounts(batch);
+        value.forEach((account, index) => {
+            if (!account || Buffer.isBuffer(account.data) || !("parsed" in account.data)) return;
+            findings.push(
+                ...readAuthorities(
+                    batch[index].toString(),
+                    account as AccountInfo<ParsedAccountData>,
+                    owner.toString()
+                )
+            );
+        });
+    }
+    return findings;
+}
+
+/**
+ * Treats approvals covering the mint's entire supply as unlimited, not only
+ * those for the maximum amount
+ */
+async function markUnlimited(delegations: Finding[]): Promise<void> {
+    const mints = Array.from(new Set(delegations.filter((f) => !f.unlimited).map((f) => f.mint)));
+    const supplies = new Map<string, number>();
+
+    for (let i = 0; i < mints.length; i += ACCOUNT_BATCH_SIZE) {
+        const batch = mints.slice(i, i + ACCOUNT_BATCH_SIZE);
+        const { value } = await connection.getMultipleParsedAccounts(batch.map((mint) => new PublicKey(mint)));
+        value.forEach((account, index) => {
+            const data = account?.data;
+            const info = data && "parsed" in data ? data.parsed?.info : undefined;
+            if (info?.supply === undefined) return;
+            supplies.set(batch[index], Number(info.supply) / Math.pow(10, info.decimals));
+        });
+    }
+
+    for (const finding of delegations) {
+        const supply = supplies.get(finding.mint);
+        if (supply !== undefined && supply > 0 && (finding.delegatedAmount || 0) >= supply) {
+            finding.unlimited = true;
+        }
+    }
+}
+
+/**
+ * Searches the token account's recent transactions, newest first, for the
+ * approve or setAuthority instruction that granted the finding's authority
+ */
+async function findGrantingTransaction(
+    finding: Finding,
+    searchDepth: number
+): Promise<TokenApproval["grantedBy"]> {
+    const signatures = await connection.getSignaturesForAddress(new PublicKey(finding.tokenAccount), {
+        limit: searchDepth,
+    });
+    const batchSize = 5;
+
+    for (let i = 0; i < signatures.length; i += batchSize) {
+        const batch = signatures.slice(i, i + batchSize).filter((sig) => sig.err === null);
+        const transactions = await Promise.all(
+            batch.map((sig) =>
+                connection.getParsedTransaction(sig.signature, { maxSupportedTransactionVersion: 0 })
+            )
+        );
+
+        for (let j = 0; j < transactions.length; j++) {
+            const tx = transactions[j];
+            if (!tx || !collectInstructions(tx).some((ix) => grantsAuthority(ix as ParsedInstruction, finding))) {
+                continue;
+            }
+            const blockTime = batch[j].blockTime;
+            return { signature: batch[j].signature, timestamp: blockTime ? blockTime * 1000 : undefined };
+        }
+
+        if (i + batchSize < signatures.length) {
+            await delay(200);
+        }
+    }
+
+    return undefined;
+}
+
+function grantsAuthority(ix: ParsedInstruction, finding: Finding): boolean {
+    const { program, parsed } = ix;
+    if ((program !== "spl-token" && program !== "spl-token-2022") || !parsed?.info) return false;
+    const info = parsed.info;
+
+    if (finding.kind === "delegate") {
+        return (
+            (parsed.type === "approve" || parsed.type === "approveChecked") &&
+            info.source === finding.tokenAccount &&
+            info.delegate === finding.authority
+        );
+    }
+    return (
+        parsed.type === "setAuthority" &&
+        info.account === finding.tokenAccount &&
+        info.authorityType === AUTHORITY_TYPES[finding.kind] &&
+        info.newAuthority === finding.authority
+    );
+}
@@ -0,0 +1,160 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { APY_CONFIG, TIME_PERIODS } from "../config/constants";
+import { readJsonPath, getHostLabel } from "../utils/http";
+import { parseTimestamp } from "../utils/date";
+import { ApyQuote, ApySource, DeFiPosition } from "../types/interfaces";
+
+interface FixtureRate {
+    protocol: string;
+    type?: string;
+    token?: string;
+    apy: number;
+    timestamp?: number | string;
+}
+
+// Positions that earn or pay a rate; others (e.g. trading statistics) have no APY
+const YIELD_POSITION_TYPES = ["Staking", "Lending", "Borrowing", "Liquidity"];
+
+/**
+ * Serves APYs from a local JSON file of the form
+ * `{ "updatedAt": "...", "rates": [{ "protocol", "type", "token", "apy", "timestamp" }] }`.
+ * `type` and `token` are optional; the most specific matching rate wins.
+ */
+export class FixtureApySource implements ApySource {
+    public readonly name: string;
+    private rates?: Array<FixtureRate & { timestamp: number }>;
+
+    constructor(private readonly filePath: string) {
+        this.name = `fixture:${path.basename(filePath)}`;
+    }
+
+    public async getApy(protocol: string, positionType: string, token?: string): Promise<ApyQuote | undefined> {
+        const matches = this.load()
+            .filter(
+                (rate) =>
+                    rate.protocol === protocol &&
+                    (!rate.type || rate.type === positionType) &&
+                    (!rate.token || rate.token === token)
+            )
+            .sort((a, b) => specificity(b) - specificity(a));
+
+        const match = matches[0];
+        return match ? { apy: match.apy, source: this.name, timestamp: match.timestamp } : undefined;
+    }
+
+    private load(): Array<FixtureRate & { timestamp: number }> {
+        if (this.rates) return this.rates;
+
+        this.rates = [];
+        if (!fs.existsSync(this.filePath)) {
+            return this.rates;
+        }
+
+        try {
+            const data = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as {
+                updatedAt?: string | number;
+                rates?: FixtureRate[];
+            };
+            const fileTimestamp = fs.statSync(this.filePath).mtimeMs;
+            const defaultTimestamp = data.updatedAt !== undefined ? parseTimestamp(data.updatedAt) : fileTimestamp;
+
+            this.rates = (data.rates || [])
+                .filter((rate) => rate.protocol && Number.isFinite(Number(rate.apy)))
+                .map((rate) => ({
+                    ...rate,
+                    apy: Number(rate.apy),
+                    timestamp: rate.timestamp !== undefined ? parseTimestamp(rate.timestamp) : defaultTimestamp,
+                }));
+        } catch (error) {
+            console.error(`Error loading APY fixture ${this.filePath}:`, error);
+        }
+
+        return this.rates;
+    }
+}
+
+/**
+ * Fetches APYs from an HTTP API described by a URL template with
+ * `{protocol}`, `{type}` and `{token}` placeholders. The APY percentage is read
+ * from the JSON response at APY_API_RESPONSE_PATH.
+ */
+export class HttpApySource implements ApySource {
+    public readonly name: string;
+    // Failed requests are retried after a minute instead of the usual hour
+    private cache = new Map<string, { quote?: ApyQuote; fetchedAt: number; failed?: boolean }>();
+
+    constructor(
+        private readonly urlTemplate: string,
+        private readonly responsePath: string,
+        private readonly apiKey: string
+    ) {
+        this.name = `http:${getHostLabel(urlTemplate)}`;
+    }
+
+    public async getApy(protocol: string, positionType: string, token?: string): Promise<ApyQuote | undefined> {
+        if (!this.urlTemplate) return undefined;
+
+        const cacheKey = `${protocol}:${positionType}:${token || ""}`;
+        const cached = this.cache.get(cacheKey);
+        const maxAge = cached?.failed ? TIME_PERIODS.ONE_MINUTE : TIME_PERIODS.ONE_HOUR;
+        if (cached && Date.now() - cached.fetchedAt < maxAge) {
+            return cached.quote;
+        }
+
+        let quote: ApyQuote | undefined;
+        let failed = false;
+        try {
+            const url = this.urlTemplate
+                .replace(/{protocol}/g, encodeURIComponent(protocol))
+                .replace(/{type}/g, encodeURIComponent(positionType))
+                .replace(/{token}/g, encodeURIComponent(token || ""));
+            const response = await axios.get(url, {
+                timeout: 10000,
+                headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+            });
+            const apy = Number(readJsonPath(response.data, this.responsePath));
+
+            if (Number.isFinite(apy)) {
+                quote = { apy, source: this.name, timestamp: Date.now() };
+            }
+        } catch (error) {
+            console.error(`Error fetching APY for ${protocol}:`, error instanceof Error ? error.message : error);
+            failed = true;
+        }
+
+        this.cache.set(cacheKey, { quote, fetchedAt: Date.now(), failed });
+        return quote;
+    }
+}
+
+export function createApySource(): ApySource {
+    if (APY_CONFIG.source === "http") {
+        return new HttpApySource(APY_CONFIG.apiUrl, APY_CONFIG.responsePath, APY_CONFIG.apiKey);
+    }
+    return new FixtureApySource(APY_CONFIG.fixturePath);
+}
+
+export const apySource = createApySource();
+
+/**
+ * Sets apy, apySource and apyTimestamp on yield-bearing positions.
+ * Positions without a quote get `apySource: "unknown"` rather than a guess.
+ */
+export async function attachApys(positions: DeFiPosition[]): Promise<DeFiPosition[]> {
+    for (const position of positions) {
+        const quote = YIELD_POSITION_TYPES.includes(position.type)
+            ? await apySource.getApy(position.protocol, position.type, position.tokenA)
+            : undefined;
+
+        position.apy = quote?.apy;
+        position.apySource = quote?.source || "unknown";
+        position.apyTimestamp = quote?.timestamp;
+    }
+    return positions;
+}
+
+function specificity(rate: FixtureRate): number {
+    return (rate.type ? 1 : 0) + (rate.token ? 2 : 0);
+}
@@ -0,0 +1,71 @@
+import { ParsedInstruction, ParsedTransactionWithMeta, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { CounterpartyTransfer } from "../types/interfaces";
+import { getTokenSymbol } from "./holdings";
+import { collectInstructions, mapTokenAccounts } from "./transaction";
+
+const SOL_MINT = NATIVE_MINT.toString();
+
+/**
+ * Lists the SOL and SPL token transfers between the wallet and other
+ * addresses, aggregated per counterparty, mint and direction.
+ *
+ * System transfers use the other account directly. Token transfers resolve
+ * token accounts to their owners, falling back to the token account address
+ * when the owner isn't in the transaction's token balances. Transfers between
+ * the wallet's own accounts are ignored.
+ */
+export function extractCounterpartyTransfers(
+    tx: ParsedTransactionWithMeta,
+    walletAddress: string
+): CounterpartyTransfer[] {
+    if (!tx.meta || tx.meta.err !== null) return [];
+
+    const tokenAccounts = mapTokenAccounts(tx);
+    const transfers = new Map<string, CounterpartyTransfer>();
+    const addTransfer = (address: string, mint: string, amount: number, direction: "in" | "out") => {
+        if (address === walletAddress || !(amount > 0)) return;
+        const key = `${address}:${mint}:${direction}`;
+        const existing = transfers.get(key);
+        if (existing) {
+            existing.amount += amount;
+            return;
+        }
+        transfers.set(key, { address, mint, symbol: getTokenSymbol(mint), amount, direction });
+    };
+
+    for (const ix of collectInstructions(tx)) {
+        const { program, parsed } = ix as ParsedInstruction;
+        if (!parsed?.info) continue;
+        const info = parsed.info;
+
+        if (program === "system" && (parsed.type === "transfer" || parsed.type === "transferWithSeed")) {
+            const amount = Number(info.lamports) / LAMPORTS_PER_SOL;
+            if (info.source === walletAddress) addTransfer(info.destination, SOL_MINT, amount, "out");
+            if (info.destination === walletAddress) addTransfer(info.source, SOL_MINT, amount, "in");
+            continue;
+        }
+
+        if (program !== "spl-token" || (parsed.type !== "transfer" && parsed.type !== "transferChecked")) {
+            continue;
+        }
+
+        const source = tokenAccounts.get(info.source);
+        const destination = tokenAccounts.get(info.destination);
+        const mint: string | undefined = info.mint || source?.mint || destination?.mint;
+        const decimals = info.tokenAmount?.decimals ?? source?.decimals ?? destination?.decimals;
+        if (!mint || decimals === undefined) continue;
+
+        const amount = Number(info.tokenAmount?.amount ?? info.amount) / Math.pow(10, decimals);
+        const sourceOwner = source?.owner || info.source;
+        const destinationOwner = destination?.owner || info.destination;
+        if (sourceOwner === walletAddress || info.authority === walletAddress) {
+            addTransfer(destinationOwner, mint, amount, "out");
+        }
+        if (destinationOwner === walletAddress) {
+            addTransfer(sourceOwner, mint, amount, "in");
+        }
+    }
+
+    return Array.from(transfers.values());
+}
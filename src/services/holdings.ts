@@ -0,0 +1,67 @@
+import { PublicKey, LAMPORTS_PER_SOL, ParsedAccountData, AccountInfo } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, NATIVE_MINT } from "@solana/spl-token";
+import { connection } from "./connection";
+import { attachHoldingValues } from "./price";
+import { KNOWN_TOKENS } from "../config/constants";
+import { TokenHolding } from "../types/interfaces";
+import { shortenAddress } from "../utils/address";
+
+export function getTokenSymbol(mint: string): string {
+    return KNOWN_TOKENS[mint] || shortenAddress(mint);
+}
+
+export async function fetchWalletHoldings(publicKey: string): Promise<TokenHolding[]> {
+    const owner = new PublicKey(publicKey);
+
+    const [lamports, splAccounts, token2022Accounts] = await Promise.all([
+        connection.getBalance(owner),
+        connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID }),
+        connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_2022_PROGRAM_ID }),
+    ]);
+
+    const holdings: TokenHolding[] = [
+        {
+            mint: NATIVE_MINT.toString(),
+            symbol: "SOL",
+            amount: lamports / LAMPORTS_PER_SOL,
+            decimals: 9,
+            isNative: true,
+        },
+    ];
+
+    for (const { pubkey, account } of [...splAccounts.value, ...token2022Accounts.value]) {
+        const holding = toTokenHolding(pubkey, account);
+        if (holding) {
+            holdings.push(holding);
+        }
+    }
+
+    await attachHoldingValues(holdings);
+
+    return holdings.sort((a, b) => {
+        if (a.isNative !== b.isNative) return a.isNative ? -1 : 1;
+        return b.amount - a.amount;
+    });
+}
+
+function toTokenHolding(
+    pubkey: PublicKey,
+    account: AccountInfo<ParsedAccountData>
+): TokenHolding | undefined {
+    const info = account.data.parsed?.info;
+    if (!info?.mint || !info.tokenAmount) return undefined;
+
+    const mint: string = info.mint;
+    const decimals: number = info.tokenAmount.decimals;
+    const amount = Number(info.tokenAmount.amount) / Math.pow(10, decimals);
+
+    return {
+        mint,
+        symbol: getTokenSymbol(mint),
+        amount,
+        decimals,
+        tokenAccount: pubkey.toString(),
+        tokenProgram: account.owner.toString(),
+        reclaimableRent: amount === 0 ? account.lamports / LAMPORTS_PER_SOL : undefined,
+    };
+}
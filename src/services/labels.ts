@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { LABELS_PATH } from "../config/constants";
+import { BUILT_IN_LABELS } from "../config/labels";
+import { AddressLabel, CounterpartySummary } from "../types/interfaces";
+import { protocolRegistry } from "./protocolRegistry";
+import { shortenAddress } from "../utils/address";
+
+const labelSchema = z.object({
+    address: z.string().min(32).max(44),
+    label: z.string().min(1),
+    category: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+});
+
+const labelFileSchema = z.union([z.array(labelSchema), z.object({ labels: z.array(labelSchema) })]);
+
+type ResolvedLabel = Pick<CounterpartySummary, "label" | "labelSource" | "category"> & { tags?: string[] };
+
+/**
+ * Names for addresses, from the user's address book in LABELS_PATH, then
+ * program IDs from the protocol registry, then the bundled labels for
+ * exchanges and protocols. The address book can be edited by hand; changes
+ * made through the tools are written back to it.
+ */
+class AddressLabels {
+    private labels?: Map<string, AddressLabel>;
+    private readonly builtIn = new Map(BUILT_IN_LABELS.map((entry) => [entry.address, entry]));
+
+    constructor(private readonly filePath: string) {}
+
+    /**
+     * Address book entries, optionally only those with the given tag or category
+     */
+    public list({ tag, category }: { tag?: string; category?: string } = {}): AddressLabel[] {
+        return Array.from(this.load().values()).filter(
+            (entry) =>
+                (!tag || entry.tags?.some((t) => t.toLowerCase() === tag.toLowerCase())) &&
+                (!category || entry.category?.toLowerCase() === category.toLowerCase())
+        );
+    }
+
+    public listBuiltIn(): AddressLabel[] {
+        return BUILT_IN_LABELS.map((entry) => ({ ...entry }));
+    }
+
+    public get(address: string): AddressLabel | undefined {
+        return this.load().get(address);
+    }
+
+    public resolve(address: string): ResolvedLabel {
+        const entry = this.get(address);
+        if (entry) {
+            return { label: entry.label, labelSource: "label-file", category: entry.category, tags: entry.tags };
+        }
+
+        const protocol = protocolRegistry.findByProgramId(address);
+        if (protocol) {
+            return { label: protocol.name, labelSource: "program", category: protocol.category };
+        }
+
+        const builtIn = this.builtIn.get(address);
+        if (builtIn) {
+            return { label: builtIn.label, labelSource: "built-in", category: builtIn.category };
+        }
+
+        return { labelSource: "unknown" };
+    }
+
+    /**
+     * Adds an address to the address book or updates its entry. Tags are
+     * merged with the existing ones; a label is required for new addresses.
+     * @throws When the address isn't a valid Solana public key
+     */
+    public save({ address, label, category, tags }: Partial<AddressLabel> & { address: string }): AddressLabel {
+        const normalized = normalizeAddress(address);
+        const existing = this.get(normalized);
+        const name = label?.trim() || existing?.label;
+        if (!name) {
+            throw new Error(`A label is required for ${normalized}, which isn't in the address book yet`);
+        }
+
+        const mergedTags = Array.from(new Set([...(existing?.tags || []), ...normalizeTags(tags)]));
+        const entry: AddressLabel = {
+            address: normalized,
+            label: name,
+            category: category?.trim() || existing?.category,
+            tags: mergedTags.length ? mergedTags : undefined,
+        };
+
+        this.load().set(normalized, entry);
+        this.write();
+        return entry;
+    }
+
+    public remove(address: string): boolean {
+        const normalized = normalizeAddress(address);
+        if (!this.load().delete(normalized)) return false;
+        this.write();
+        return true;
+    }
+
+    /**
+     * Removes tags from an address book entry, keeping its label
+     * @returns The updated entry, or undefined if the address isn't in the book
+     */
+    public removeTags(address: string, tags: string[]): AddressLabel | undefined {
+        const normalized = normalizeAddress(address);
+        const existing = this.get(normalized);
+        if (!existing) return undefined;
+
+        const removed = new Set(normalizeTags(tags));
+        const remaining = (existing.tags || []).filter((t) => !removed.has(t));
+        const entry: AddressLabel = { ...existing, tags: remaining.length ? remaining : undefined };
+        this.load().set(normalized, entry);
+        this.write();
+        return entry;
+    }
+
+    private load(): Map<string, AddressLabel> {
+        if (this.labels) return this.labels;
+
+        this.labels = new Map();
+        if (!fs.existsSync(this.filePath)) return this.labels;
+
+        try {
+            const parsed = labelFileSchema.safeParse(JSON.parse(fs.readFileSync(this.filePath, "utf8")));
+            if (!parsed.success) {
+                console.error(`Invalid label file ${this.filePath}:`, parsed.error.message);
+                return this.labels;
+            }
+            const entries = Array.isArray(parsed.data) ? parsed.data : parsed.data.labels;
+            for (const entry of entries) {
+                this.labels.set(entry.address, entry);
+            }
+        } catch (error) {
+            console.error(`Error loading label file ${this.filePath}:`, error);
+        }
+
+        return this.labels;
+    }
+
+    private write(): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify({ labels: Array.from(this.load().values()) }, null, 2));
+    }
+}
+
+function normalizeAddress(address: string): string {
+    try {
+        return new PublicKey(address.trim()).toString();
+    } catch {
+        throw new Error(`Invalid address: ${address}`);
+    }
+}
+
+function normalizeTags(tags: string[] = []): string[] {
+    return tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+}
+
+export const addressLabels = new AddressLabels(LABELS_PATH);
+
+/**
+ * Markdown for an address: "Label (`abcd…wxyz`)" when it has a label,
+ * otherwise the address in code. Set `full` to keep the whole address, as
+ * report headers do.
+ */
+export function formatAddress(address: string, { full = false }: { full?: boolean } = {}): string {
+    const { label } = addressLabels.resolve(address);
+    const code = `\`${full ? address : shortenAddress(address)}\``;
+    return label ? `${label} (${code})` : code;
+}
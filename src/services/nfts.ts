@@ -0,0 +1,223 @@
+import { ParsedInstruction, ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { connection } from "./connection";
+import { fetchWalletHoldings, getTokenSymbol } from "./holdings";
+import { protocolRegistry } from "./protocolRegistry";
+import {
+    collectInstructions,
+    computeTokenMovements,
+    getPrimaryProgramId,
+    getTokenAccountRent,
+    mapTokenAccounts,
+} from "./transaction";
+import { NftAction, NftHolding, NftMetadata, NftTrade, TokenHolding } from "../types/interfaces";
+
+const SOL_MINT = NATIVE_MINT.toString();
+
+// Metaplex token metadata accounts live at a PDA of this program; the layout
+// below is tied to it, so it isn't read from the protocol registry
+const TOKEN_METADATA = {
+    PROGRAM_ID: new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"),
+    // Account discriminator of MetadataV1
+    KEY: 4,
+    UPDATE_AUTHORITY_OFFSET: 1,
+    // name, symbol and uri are borsh strings starting after the mint
+    NAME_OFFSET: 65,
+};
+
+// getMultipleAccountsInfo accepts at most 100 accounts per call
+const ACCOUNT_BATCH_SIZE = 100;
+
+// SOL moved below this is rent for marketplace escrow accounts, not a payment
+const MIN_NFT_PAYMENT = 0.005;
+
+export const NFT_ACTION_TYPES: Record<NftAction, string> = {
+    buy: "NFT Buy",
+    sell: "NFT Sale",
+    list: "NFT Listing",
+    delist: "NFT Delisting",
+};
+
+/**
+ * Decodes what the wallet did in a Magic Eden, Tensor or other registered
+ * marketplace transaction.
+ *
+ * An NFT arriving against a SOL payment is a buy and one leaving against SOL
+ * proceeds is a sale; both prices exclude token account rent. An NFT moving
+ * to or back from escrow without payment is a listing or delisting. Listings
+ * that keep the NFT in the wallet are recognised by the token delegate
+ * approval (or revocation) on the wallet's NFT account.
+ *
+ * @returns Trade details, or undefined if the wallet's action can't be determined
+ */
+export function decodeNftTrade(
+    tx: ParsedTransactionWithMeta,
+    walletAddress: string
+): NftTrade | undefined {
+    if (!tx.meta || tx.meta.err !== null) return undefined;
+
+    const marketplace = protocolRegistry.findByProgramId(getPrimaryProgramId(tx));
+    if (!marketplace || marketplace.category !== "marketplace") return undefined;
+
+    const tokenAccounts = mapTokenAccounts(tx);
+    const nftMints = new Set(
+        Array.from(tokenAccounts.values())
+            .filter((account) => account.decimals === 0)
+            .map((account) => account.mint)
+    );
+
+    const movements = computeTokenMovements(tx, walletAddress);
+    const nft = movements.find((m) => nftMints.has(m.mint) && Math.abs(m.amount) === 1);
+    const sol =
+        (movements.find((m) => m.mint === SOL_MINT)?.amount || 0) + getTokenAccountRent(tx, walletAddress);
+
+    const trade = (action: NftAction, mint: string, price?: number): NftTrade => ({
+        action,
+        mint,
+        marketplace: marketplace.id,
+        price,
+    });
+
+    if (nft?.direction === "in") {
+        return sol < -MIN_NFT_PAYMENT ? trade("buy", nft.mint, -sol) : trade("delist", nft.mint);
+    }
+    if (nft?.direction === "out") {
+        return sol > MIN_NFT_PAYMENT ? trade("sell", nft.mint, sol) : trade("list", nft.mint);
+    }
+
+    for (const ix of collectInstructions(tx)) {
+        const { program, parsed } = ix as ParsedInstruction;
+        if (program !== "spl-token" && program !== "spl-token-2022") continue;
+        if (parsed?.type !== "approve" && parsed?.type !== "approveChecked" && parsed?.type !== "revoke") {
+            continue;
+        }
+
+        const account = tokenAccounts.get(parsed.info.source);
+        if (account?.owner !== walletAddress || account.decimals !== 0) continue;
+        return trade(parsed.type === "revoke" ? "delist" : "list", account.mint);
+    }
+
+    return undefined;
+}
+
+/**
+ * One-line description of an NFT trade, e.g. "Bought 7xKX…gAsU for 1.5 SOL"
+ */
+export function describeNftTrade(trade: NftTrade): string {
+    const nft = getTokenSymbol(trade.mint);
+    switch (trade.action) {
+        case "buy":
+            return `Bought ${nft} for ${formatPrice(trade.price)}`;
+        case "sell":
+            return `Sold ${nft} for ${formatPrice(trade.price)}`;
+        case "list":
+            return `Listed ${nft}`;
+        case "delist":
+            return `Delisted ${nft}`;
+    }
+}
+
+function formatPrice(price?: number): string {
+    return price !== undefined ? `${Number(price.toFixed(4))} SOL` : "an unknown price";
+}
+
+/**
+ * Lists the NFTs a wallet holds: token accounts holding one unit of a
+ * zero-decimal mint whose supply is 1, with their Metaplex metadata when the
+ * metadata account exists
+ * @param publicKey - Wallet address
+ * @param holdings - Current holdings, fetched when not provided
+ */
+export async function fetchWalletNfts(
+    publicKey: string,
+    holdings?: TokenHolding[]
+): Promise<NftHolding[]> {
+    const walletHoldings = holdings || (await fetchWalletHoldings(publicKey));
+    const candidates = walletHoldings.filter((h) => h.decimals === 0 && h.amount === 1);
+
+    const nfts: NftHolding[] = [];
+    for (let i = 0; i < candidates.length; i += ACCOUNT_BATCH_SIZE) {
+        const batch = candidates.slice(i, i + ACCOUNT_BATCH_SIZE);
+        const mints = batch.map((h) => new PublicKey(h.mint));
+
+        const [mintAccounts, metadataAccounts] = await Promise.all([
+            connection.getMultipleParsedAccounts(mints),
+            connection.getMultipleAccountsInfo(mints.map(getMetadataAddress)),
+        ]);
+
+        batch.forEach((holding, index) => {
+            const mintData = mintAccounts.value[index]?.data;
+            const supply = mintData && "parsed" in mintData ? mintData.parsed?.info?.supply : undefined;
+            if (supply !== "1") return;
+
+            const metadataAccount = metadataAccounts[index];
+            nfts.push({
+                mint: holding.mint,
+                tokenAccount: holding.tokenAccount,
+                tokenProgram: holding.tokenProgram,
+                metadata: metadataAccount ? decodeMetadata(metadataAccount.data) : undefined,
+            });
+        });
+    }
+
+    return nfts;
+}
+
+function getMetadataAddress(mint: PublicKey): PublicKey {
+    return PublicKey.findProgramAddressSync(
+        [Buffer.from("metadata"), TOKEN_METADATA.PROGRAM_ID.toBuffer(), mint.toBuffer()],
+        TOKEN_METADATA.PROGRAM_ID
+    )[0];
+}
+
+/**
+ * Decodes the fields of a Metaplex metadata account up to its collection.
+ * Strings are stored padded with null bytes, which are stripped.
+ */
+function decodeMetadata(data: Buffer): NftMetadata | undefined {
+    if (data[0] !== TOKEN_METADATA.KEY) return undefined;
+
+    try {
+        let offset = TOKEN_METADATA.NAME_OFFSET;
+        const readString = () => {
+            const length = data.readUInt32LE(offset);
+            const value = data.subarray(offset + 4, offset + 4 + length).toString("utf8");
+            offset += 4 + length;
+            return value.replace(/\0/g, "").trim();
+        };
+        const readOption = () => data[offset++] === 1;
+
+        const updateAuthority = new PublicKey(
+            data.subarray(TOKEN_METADATA.UPDATE_AUTHORITY_OFFSET, TOKEN_METADATA.UPDATE_AUTHORITY_OFFSET + 32)
+        ).toString();
+        const name = readString();
+        const symbol = readString();
+        const uri = readString();
+        const sellerFeeBasisPoints = data.readUInt16LE(offset);
+        offset += 2;
+
+        // Creators: address (32), verified (1), share (1)
+        if (readOption()) {
+            const count = data.readUInt32LE(offset);
+            offset += 4 + count * 34;
+        }
+        // primary_sale_happened and is_mutable
+        offset += 2;
+        // edition_nonce and token_standard
+        if (readOption()) offset += 1;
+        if (readOption()) offset += 1;
+
+        let collection: NftMetadata["collection"];
+        if (offset < data.length && readOption()) {
+            collection = {
+                verified: data[offset] === 1,
+                address: new PublicKey(data.subarray(offset + 1, offset + 33)).toString(),
+            };
+        }
+
+        return { name, symbol, uri, updateAuthority, sellerFeeBasisPoints, collection };
+    } catch (error) {
+        console.error("Error decoding NFT metadata:", error);
+        return undefined;
+    }
+}
@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { PORTFOLIOS_PATH } from "../config/constants";
+import { Portfolio } from "../types/interfaces";
+
+const portfolioSchema = z.object({
+    name: z.string().min(1),
+    addresses: z.array(z.string()).min(1),
+    description: z.string().optional(),
+});
+
+const portfolioFileSchema = z.union([
+    z.array(portfolioSchema),
+    z.object({ portfolios: z.array(portfolioSchema) }),
+]);
+
+/**
+ * Named groups of wallet addresses stored in PORTFOLIOS_PATH. The file can be
+ * edited by hand; changes made through the tools are written back to it.
+ */
+class PortfolioStore {
+    private portfolios?: Portfolio[];
+
+    constructor(private readonly filePath: string) {}
+
+    public list(): Portfolio[] {
+        return [...this.load()];
+    }
+
+    public get(name: string): Portfolio | undefined {
+        return this.load().find((p) => p.name.toLowerCase() === name.toLowerCase());
+    }
+
+    /**
+     * Creates a portfolio or replaces the one with the same name
+     * @throws When an address isn't a valid Solana public key
+     */
+    public save(portfolio: Portfolio): Portfolio {
+        const normalized: Portfolio = {
+            ...portfolio,
+            name: portfolio.name.trim(),
+            addresses: normalizeAddresses(portfolio.addresses),
+        };
+        if (!normalized.name) {
+            throw new Error("Portfolio name is required");
+        }
+
+        const portfolios = this.load().filter((p) => p.name.toLowerCase() !== normalized.name.toLowerCase());
+        this.portfolios = [...portfolios, normalized];
+        this.write();
+        return normalized;
+    }
+
+    public remove(name: string): boolean {
+        const portfolios = this.load();
+        const remaining = portfolios.filter((p) => p.name.toLowerCase() !== name.toLowerCase());
+        if (remaining.length === portfolios.length) return false;
+
+        this.portfolios = remaining;
+        this.write();
+        return true;
+    }
+
+    private load(): Portfolio[] {
+        if (this.portfolios) return this.portfolios;
+
+        this.portfolios = [];
+        if (!fs.existsSync(this.filePath)) return this.portfolios;
+
+        try {
+            const parsed = portfolioFileSchema.safeParse(JSON.parse(fs.readFileSync(this.filePath, "utf8")));
+            if (!parsed.success) {
+                console.error(`Invalid portfolio file ${this.filePath}:`, parsed.error.message);
+                return this.portfolios;
+            }
+            const entries = Array.isArray(parsed.data) ? parsed.data : parsed.data.portfolios;
+            for (const entry of entries) {
+                try {
+                    this.portfolios.push({ ...entry, addresses: normalizeAddresses(entry.addresses) });
+                } catch (error) {
+                    console.error(`Skipping portfolio ${entry.name}:`, error instanceof Error ? error.message : error);
+                }
+            }
+        } catch (error) {
+            console.error(`Error loading portfolio file ${this.filePath}:`, error);
+        }
+
+        return this.portfolios;
+    }
+
+    private write(): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify({ portfolios: this.portfolios }, null, 2));
+    }
+}
+
+function normalizeAddresses(addresses: string[]): string[] {
+    const normalized = addresses.map((address) => {
+        try {
+            return new PublicKey(address.trim()).toString();
+        } catch {
+            throw new Error(`Invalid wallet address: ${address}`);
+        }
+    });
+    if (normalized.length === 0) {
+        throw new Error("A portfolio needs at least one address");
+    }
+    return Array.from(new Set(normalized));
+}
+
+export const portfolioStore = new PortfolioStore(PORTFOLIOS_PATH);
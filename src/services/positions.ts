@@ -0,0 +1,228 @@
+import { PublicKey, ParsedAccountData } from "@solana/web3.js";
+import { connection } from "./connection";
+import { getTokenSymbol } from "./holdings";
+import { getSolUsdPrice } from "./price";
+import { fetchStakeAccounts } from "./stake";
+import { KNOWN_TOKENS } from "../config/constants";
+import { DeFiPosition, TokenHolding } from "../types/interfaces";
+
+const MSOL_MINT = "mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So";
+
+// Account layouts below are tied to specific program deployments, so their
+// program IDs live here rather than in the configurable protocol registry
+
+// Solend obligation layout: version (1), last update (9), lending market (32), owner (32),
+// then WAD-scaled (1e18) u128 USD values for deposits and borrows
+const SOLEND_OBLIGATION = {
+    PROGRAM_ID: "So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo",
+    SIZE: 1300,
+    OWNER_OFFSET: 42,
+    DEPOSITED_VALUE_OFFSET: 74,
+    BORROWED_VALUE_OFFSET: 90,
+    WAD: 1e18,
+};
+
+// Raydium AMM v4 pools: every LP mint shares one mint authority
+const RAYDIUM_AMM = {
+    PROGRAM_ID: "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8",
+    AUTHORITY: "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1",
+    SIZE: 752,
+    BASE_MINT_OFFSET: 400,
+    QUOTE_MINT_OFFSET: 432,
+    LP_MINT_OFFSET: 464,
+};
+
+// Orca legacy (SPL token-swap) pools: LP mint authority is a per-pool PDA
+const ORCA_POOL = {
+    PROGRAM_ID: "9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aQP",
+    SIZE: 324,
+    LP_MINT_OFFSET: 99,
+    TOKEN_A_MINT_OFFSET: 131,
+    TOKEN_B_MINT_OFFSET: 163,
+};
+
+// Each Orca candidate needs a program account scan, so bound the lookups
+const MAX_ORCA_LOOKUPS = 5;
+
+/**
+ * Reads the wallet's current DeFi positions from chain state: mSOL held for
+ * Marinade, native stake accounts, Solend obligation accounts, and
+ * Raydium/Orca LP token balances
+ */
+export async function readOnChainPositions(
+    publicKey: string,
+    holdings: TokenHolding[]
+): Promise<DeFiPosition[]> {
+    const results = await Promise.allSettled([
+        readMarinadePositions(holdings),
+        readSolendPositions(publicKey),
+        readLiquidityPositions(holdings),
+        readNativeStakePositions(publicKey),
+    ]);
+
+    return results.flatMap((result) => {
+        if (result.status === "fulfilled") return result.value;
+        console.error("Error reading on-chain positions:", result.reason);
+        return [];
+    });
+}
+
+async function readMarinadePositions(holdings: TokenHolding[]): Promise<DeFiPosition[]> {
+    const msol = holdings.filter((h) => h.mint === MSOL_MINT && h.amount > 0);
+    const solPrice = await getSolUsdPrice();
+
+    return msol.map((holding) => ({
+        protocol: "MARINADE_STAKING",
+        type: "Staking",
+        source: "on-chain" as const,
+        account: holding.tokenAccount,
+        tokenA: holding.symbol,
+        amount: holding.amount,
+        value: holding.usdValue !== undefined && solPrice ? holding.usdValue / solPrice : undefined,
+        usdValue: holding.usdValue,
+        timestamp: Date.now(),
+    }));
+}
+
+async function readNativeStakePositions(publicKey: string): Promise<DeFiPosition[]> {
+    const { accounts } = await fetchStakeAccounts(publicKey);
+
+    return accounts.map((account) => ({
+        protocol: "NATIVE_STAKING",
+        type: "Staking",
+        source: "on-chain" as const,
+        account: account.address,
+        tokenA: "SOL",
+        amount: account.balance,
+        value: account.balance,
+        validator: account.validator,
+        state: account.state,
+        timestamp: Date.now(),
+    }));
+}
+
+async function readSolendPositions(publicKey: string): Promise<DeFiPosition[]> {
+    const obligations = await connection.getProgramAccounts(new PublicKey(SOLEND_OBLIGATION.PROGRAM_ID), {
+        filters: [
+            { dataSize: SOLEND_OBLIGATION.SIZE },
+            { memcmp: { offset: SOLEND_OBLIGATION.OWNER_OFFSET, bytes: publicKey } },
+        ],
+    });
+
+    const positions: DeFiPosition[] = [];
+    for (const { pubkey, account } of obligations) {
+        const deposited = readU128(account.data, SOLEND_OBLIGATION.DEPOSITED_VALUE_OFFSET) / SOLEND_OBLIGATION.WAD;
+        const borrowed = readU128(account.data, SOLEND_OBLIGATION.BORROWED_VALUE_OFFSET) / SOLEND_OBLIGATION.WAD;
+
+        if (deposited > 0) {
+            positions.push({
+                protocol: "SOLEND",
+                type: "Lending",
+                source: "on-chain",
+                account: pubkey.toString(),
+                tokenA: "Multiple",
+                usdValue: deposited,
+                timestamp: Date.now(),
+            });
+        }
+        if (borrowed > 0) {
+            positions.push({
+                protocol: "SOLEND",
+                type: "Borrowing",
+                source: "on-chain",
+                account: pubkey.toString(),
+                tokenA: "Multiple",
+                usdValue: borrowed,
+                timestamp: Date.now(),
+            });
+        }
+    }
+
+    return positions;
+}
+
+async function readLiquidityPositions(holdings: TokenHolding[]): Promise<DeFiPosition[]> {
+    const candidates = holdings.filter(
+        (h) => !h.isNative && h.amount > 0 && h.decimals > 0 && !KNOWN_TOKENS[h.mint]
+    );
+    if (candidates.length === 0) return [];
+
+    const mintInfos = await connection.getMultipleParsedAccounts(
+        candidates.map((h) => new PublicKey(h.mint))
+    );
+
+    const positions: DeFiPosition[] = [];
+    let orcaLookups = 0;
+
+    for (let i = 0; i < candidates.length; i++) {
+        const data = mintInfos.value[i]?.data as ParsedAccountData | undefined;
+        const mintAuthority: string | undefined = data?.parsed?.info?.mintAuthority;
+        if (!mintAuthority) continue;
+
+        if (mintAuthority === RAYDIUM_AMM.AUTHORITY) {
+            const pool = await findPool(RAYDIUM_AMM.PROGRAM_ID, RAYDIUM_AMM.SIZE, RAYDIUM_AMM.LP_MINT_OFFSET, candidates[i].mint);
+            positions.push(
+                toLiquidityPosition("RAYDIUM_SWAP", candidates[i], pool, RAYDIUM_AMM.BASE_MINT_OFFSET, RAYDIUM_AMM.QUOTE_MINT_OFFSET)
+            );
+            continue;
+        }
+
+        // Pool authorities are PDAs, so on-curve authorities can't belong to an Orca pool
+        if (PublicKey.isOnCurve(new PublicKey(mintAuthority)) || orcaLookups >= MAX_ORCA_LOOKUPS) continue;
+
+        orcaLookups++;
+        const pool = await findPool(ORCA_POOL.PROGRAM_ID, ORCA_POOL.SIZE, ORCA_POOL.LP_MINT_OFFSET, candidates[i].mint);
+        if (pool) {
+            positions.push(
+                toLiquidityPosition("ORCA_SWAP", candidates[i], pool, ORCA_POOL.TOKEN_A_MINT_OFFSET, ORCA_POOL.TOKEN_B_MINT_OFFSET)
+            );
+        }
+    }
+
+    return positions;
+}
+
+async function findPool(
+    programId: string,
+    dataSize: number,
+    lpMintOffset: number,
+    lpMint: string
+): Promise<{ address: string; data: Buffer } | undefined> {
+    const pools = await connection.getProgramAccounts(new PublicKey(programId), {
+        filters: [{ dataSize }, { memcmp: { offset: lpMintOffset, bytes: lpMint } }],
+    });
+    const pool = pools[0];
+    return pool ? { address: pool.pubkey.toString(), data: pool.account.data } : undefined;
+}
+
+function toLiquidityPosition(
+    protocol: string,
+    holding: TokenHolding,
+    pool: { address: string; data: Buffer } | undefined,
+    tokenAOffset: number,
+    tokenBOffset: number
+): DeFiPosition {
+    return {
+        protocol,
+        type: "Liquidity",
+        source: "on-chain",
+        account: pool?.address || holding.tokenAccount,
+        tokenA: pool ? getTokenSymbol(readPubkey(pool.data, tokenAOffset)) : undefined,
+        tokenB: pool ? getTokenSymbol(readPubkey(pool.data, tokenBOffset)) : undefined,
+        amount: holding.amount,
+        usdValue: holding.usdValue,
+        timestamp: Date.now(),
+    };
+}
+
+function readPubkey(data: Buffer, offset: number): string {
+    return new PublicKey(data.subarray(offset, offset + 32)).toString();
+}
+
+function readU128(data: Buffer, offset: number): number {
+    let value = 0;
+    for (let word = 3; word >= 0; word--) {
+        value = value * 2 ** 32 + data.readUInt32LE(offset + word * 4);
+    }
+    return value;
+}
@@ -0,0 +1,244 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { PRICE_CONFIG, TIME_PERIODS } from "../config/constants";
+import { readJsonPath, getHostLabel } from "../utils/http";
+import { parseTimestamp } from "../utils/date";
+import {
+    PricePoint,
+    PriceProvider,
+    WalletActivity,
+    TokenHolding,
+    SwapDetails,
+} from "../types/interfaces";
+
+const SOL_MINT = NATIVE_MINT.toString();
+
+/**
+ * Serves prices from a local fixture file.
+ *
+ * JSON fixtures map a mint to either a spot price or a list of
+ * `{ timestamp, price }` points; CSV fixtures use `mint,timestamp,price` rows.
+ * Timestamps may be unix seconds, milliseconds or ISO strings.
+ */
+export class FixturePriceProvider implements PriceProvider {
+    public readonly name: string;
+    private series?: Map<string, PricePoint[]>;
+
+    constructor(private readonly filePath: string) {
+        this.name = `fixture:${path.basename(filePath)}`;
+    }
+
+    public async getSpotPrice(mint: string): Promise<PricePoint | undefined> {
+        const points = this.load().get(mint);
+        return points?.[points.length - 1];
+    }
+
+    public async getHistoricalPrice(mint: string, timestamp: number): Promise<PricePoint | undefined> {
+        const points = this.load().get(mint);
+        if (!points?.length) return undefined;
+
+        // Latest point at or before the timestamp; a later price must not value past activity
+        let match: PricePoint | undefined;
+        for (const point of points) {
+            if (point.timestamp > timestamp) break;
+            match = point;
+        }
+        return match;
+    }
+
+    private load(): Map<string, PricePoint[]> {
+        if (this.series) return this.series;
+
+        this.series = new Map();
+        if (!fs.existsSync(this.filePath)) {
+            return this.series;
+        }
+
+        try {
+            const raw = fs.readFileSync(this.filePath, "utf8");
+            const rows = this.filePath.endsWith(".csv") ? parseCsvFixture(raw) : parseJsonFixture(raw);
+
+            for (const row of rows) {
+                const points = this.series.get(row.mint) || [];
+                points.push({ ...row, source: this.name });
+                this.series.set(row.mint, points);
+            }
+            this.series.forEach((points) => points.sort((a, b) => a.timestamp - b.timestamp));
+        } catch (error) {
+            console.error(`Error loading price fixture ${this.filePath}:`, error);
+        }
+
+        return this.series;
+    }
+}
+
+/**
+ * Fetches prices from an HTTP API described by URL templates.
+ *
+ * `{mint}` and `{timestamp}` (unix seconds) are substituted into the URL and the
+ * price is read from the JSON response at PRICE_API_RESPONSE_PATH.
+ */
+export class HttpPriceProvider implements PriceProvider {
+    public readonly name: string;
+    // Failed requests are cached too, but only for a minute so an outage doesn't stick
+    private cache = new Map<string, { point?: PricePoint; fetchedAt: number; failed?: boolean }>();
+
+    constructor(
+        private readonly spotUrl: string,
+        private readonly historyUrl: string,
+        private readonly responsePath: string,
+        private readonly apiKey: string
+    ) {
+        this.name = `http:${getHostLabel(spotUrl || historyUrl)}`;
+    }
+
+    public async getSpotPrice(mint: string): Promise<PricePoint | undefined> {
+        if (!this.spotUrl) return undefined;
+        return this.fetchPrice(mint, Date.now(), this.spotUrl, `spot:${mint}`, TIME_PERIODS.ONE_MINUTE);
+    }
+
+    public async getHistoricalPrice(mint: string, timestamp: number): Promise<PricePoint | undefined> {
+        if (!this.historyUrl) return this.getSpotPrice(mint);
+
+        // Historical prices are bucketed by hour so a wallet history costs few requests
+        const bucket = Math.floor(timestamp / TIME_PERIODS.ONE_HOUR) * TIME_PERIODS.ONE_HOUR;
+        return this.fetchPrice(mint, bucket, this.historyUrl, `history:${mint}:${bucket}`, Infinity);
+    }
+
+    private async fetchPrice(
+        mint: string,
+        timestamp: number,
+        template: string,
+        cacheKey: string,
+        maxAge: number
+    ): Promise<PricePoint | undefined> {
+        const cached = this.cache.get(cacheKey);
+        const ttl = cached?.failed ? TIME_PERIODS.ONE_MINUTE : maxAge;
+        if (cached && Date.now() - cached.fetchedAt < ttl) {
+            return cached.point;
+        }
+
+        let point: PricePoint | undefined;
+        let failed = false;
+        try {
+            const url = template
+                .replace(/{mint}/g, encodeURIComponent(mint))
+                .replace(/{timestamp}/g, Math.floor(timestamp / 1000).toString());
+            const response = await axios.get(url, {
+                timeout: 10000,
+                headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+            });
+            const price = Number(readJsonPath(response.data, this.responsePath.replace(/{mint}/g, mint)));
+
+            if (Number.isFinite(price)) {
+                point = { mint, price, timestamp, source: this.name };
+            }
+        } catch (error) {
+            console.error(`Error fetching price for ${mint}:`, error instanceof Error ? error.message : error);
+            failed = true;
+        }
+
+        this.cache.set(cacheKey, { point, fetchedAt: Date.now(), failed });
+        return point;
+    }
+}
+
+export function createPriceProvider(): PriceProvider {
+    if (PRICE_CONFIG.provider === "http") {
+        return new HttpPriceProvider(
+            PRICE_CONFIG.apiUrl,
+            PRICE_CONFIG.historyApiUrl,
+            PRICE_CONFIG.responsePath,
+            PRICE_CONFIG.apiKey
+        );
+    }
+    return new FixturePriceProvider(PRICE_CONFIG.fixturePath);
+}
+
+export const priceProvider = createPriceProvider();
+
+export async function getSolUsdPrice(timestamp?: number): Promise<number | undefined> {
+    const point = timestamp
+        ? await priceProvider.getHistoricalPrice(SOL_MINT, timestamp)
+        : await priceProvider.getSpotPrice(SOL_MINT);
+    return point?.price;
+}
+
+export async function attachUsdValues(activities: WalletActivity[]): Promise<WalletActivity[]> {
+    for (const activity of activities) {
+        if (activity.swap) {
+            activity.swap = { ...activity.swap, usdValue: await getSwapUsdValue(activity.swap, activity.timestamp) };
+        }
+        if (activity.nft?.price !== undefined) {
+            const solPrice = await getSolUsdPrice(activity.timestamp);
+            activity.nft = {
+                ...activity.nft,
+                usdValue: solPrice !== undefined ? activity.nft.price * solPrice : undefined,
+            };
+        }
+        if (activity.value === undefined) continue;
+        const solPrice = await getSolUsdPrice(activity.timestamp);
+        activity.usdValue = solPrice !== undefined ? activity.value * solPrice : undefined;
+    }
+    return activities;
+}
+
+/**
+ * Values a swap by whichever of its legs has a price at the swap time
+ */
+async function getSwapUsdValue(swap: SwapDetails, timestamp: number): Promise<number | undefined> {
+    const input = await priceProvider.getHistoricalPrice(swap.inputMint, timestamp);
+    if (input) return swap.inputAmount * input.price;
+    const output = await priceProvider.getHistoricalPrice(swap.outputMint, timestamp);
+    return output ? swap.outputAmount * output.price : undefined;
+}
+
+export async function attachHoldingValues(holdings: TokenHolding[]): Promise<TokenHolding[]> {
+    for (const holding of holdings) {
+        if (holding.amount === 0) continue;
+        const point = await priceProvider.getSpotPrice(holding.mint);
+        holding.usdValue = point ? holding.amount * point.price : undefined;
+    }
+    return holdings;
+}
+
+// ===== Fixture parsing =====
+
+type FixtureRow = Omit<PricePoint, "source">;
+
+function parseJsonFixture(raw: string): FixtureRow[] {
+    const data = JSON.parse(raw) as Record<string, number | Array<{ timestamp: number | string; price: number }>>;
+    const rows: FixtureRow[] = [];
+
+    for (const [mint, entry] of Object.entries(data)) {
+        if (typeof entry === "number") {
+            rows.push({ mint, price: entry, timestamp: 0 });
+            continue;
+        }
+        for (const point of entry) {
+            rows.push({ mint, price: Number(point.price), timestamp: parseTimestamp(point.timestamp) });
+        }
+    }
+
+    return rows.filter((row) => Number.isFinite(row.price));
+}
+
+function parseCsvFixture(raw: string): FixtureRow[] {
+    const lines = raw.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    const header = lines[0].split(",").map((column) => column.trim().toLowerCase());
+    const mintIndex = header.indexOf("mint");
+    const timestampIndex = header.indexOf("timestamp");
+    const priceIndex = header.indexOf("price");
+
+    return lines
+        .slice(1)
+        .map((line) => line.split(",").map((cell) => cell.trim()))
+        .map((cells) => ({
+            mint: cells[mintIndex],
+            price: Number(cells[priceIndex]),
+            timestamp: timestampIndex >= 0 ? parseTimestamp(cells[timestampIndex]) : 0,
+        }))
+        .filter((row) => row.mint && Number.isFinite(row.price));
+}
@@ -0,0 +1,145 @@
+import fs from "fs";
+import { z } from "zod";
+import YAML from "yaml";
+import { PROTOCOLS_PATH } from "../config/constants";
+import { BUILT_IN_PROTOCOLS } from "../config/protocols";
+import { ProtocolCategory, ProtocolDefinition } from "../types/interfaces";
+
+export const PROTOCOL_CATEGORIES: ProtocolCategory[] = [
+    "aggregator",
+    "dex",
+    "orderbook",
+    "perps",
+    "lending",
+    "staking",
+    "marketplace",
+    "nft",
+    "core",
+];
+
+const DEFAULT_EMOJI = "🔹";
+
+// Pseudo-protocol of the position summarizing swap volume; it has no registry entry
+export const AGGREGATE_PROTOCOL = "Aggregate";
+const AGGREGATE_EMOJI = "📊";
+
+const protocolEntrySchema = z.object({
+    id: z.string().min(1),
+    name: z.string().min(1).optional(),
+    category: z.enum(PROTOCOL_CATEGORIES as [ProtocolCategory, ...ProtocolCategory[]]).optional(),
+    programIds: z.array(z.string().min(32).max(44)).optional(),
+    emoji: z.string().optional(),
+    website: z.string().url().optional(),
+});
+
+const protocolFileSchema = z.union([
+    z.array(protocolEntrySchema),
+    z.object({ protocols: z.array(protocolEntrySchema) }),
+]);
+
+type ProtocolEntry = z.infer<typeof protocolEntrySchema>;
+
+/**
+ * Known Solana protocols: the built-in list merged with entries from
+ * PROTOCOLS_PATH (JSON, or YAML for `.yaml`/`.yml` files). A user entry with
+ * an existing id overrides that protocol's fields and adds its program IDs; a
+ * new id must give a name, category and program IDs.
+ *
+ * Precedence, used to pick the primary protocol of a transaction, follows
+ * PROTOCOL_CATEGORIES (aggregators over the DEXs they route through, DeFi over
+ * the token programs it invokes) and then registry order.
+ */
+class ProtocolRegistry {
+    private protocols: ProtocolDefinition[] = [];
+    private byProgramId = new Map<string, ProtocolDefinition>();
+
+    constructor(private readonly filePath: string) {
+        this.load();
+    }
+
+    public list(category?: ProtocolCategory): ProtocolDefinition[] {
+        return category ? this.protocols.filter((p) => p.category === category) : [...this.protocols];
+    }
+
+    public get(id: string): ProtocolDefinition | undefined {
+        return this.protocols.find((p) => p.id === id);
+    }
+
+    public findByProgramId(programId: string): ProtocolDefinition | undefined {
+        return this.byProgramId.get(programId);
+    }
+
+    /**
+     * Display name for a protocol id, falling back to the id itself
+     */
+    public getName(id: string): string {
+        return this.get(id)?.name || id;
+    }
+
+    public getEmoji(id: string): string {
+        if (id === AGGREGATE_PROTOCOL) return AGGREGATE_EMOJI;
+        return this.get(id)?.emoji || DEFAULT_EMOJI;
+    }
+
+    /**
+     * Precedence rank of a protocol id; lower ranks win. Unknown ids rank last.
+     */
+    public rank(id: string): number {
+        const protocol = this.get(id);
+        if (!protocol) return Infinity;
+        return PROTOCOL_CATEGORIES.indexOf(protocol.category) * this.protocols.length + this.protocols.indexOf(protocol);
+    }
+
+    private load(): void {
+        const protocols = BUILT_IN_PROTOCOLS.map((p) => ({ ...p, programIds: [...p.programIds] }));
+
+        for (const entry of this.readUserEntries()) {
+            const existing = protocols.find((p) => p.id === entry.id);
+            if (existing) {
+                Object.assign(existing, {
+                    ...entry,
+                    programIds: Array.from(new Set([...existing.programIds, ...(entry.programIds || [])])),
+                });
+            } else if (entry.name && entry.category && entry.programIds?.length) {
+                protocols.push({
+                    id: entry.id,
+                    name: entry.name,
+                    category: entry.category,
+                    programIds: entry.programIds,
+                    emoji: entry.emoji || DEFAULT_EMOJI,
+                    website: entry.website,
+                });
+            } else {
+                console.error(`Skipping protocol ${entry.id}: new protocols need a name, category and programIds`);
+            }
+        }
+
+        this.protocols = protocols;
+        this.byProgramId = new Map();
+        for (const protocol of protocols) {
+            for (const programId of protocol.programIds) {
+                this.byProgramId.set(programId, protocol);
+            }
+        }
+    }
+
+    private readUserEntries(): ProtocolEntry[] {
+        if (!fs.existsSync(this.filePath)) return [];
+
+        try {
+            const raw = fs.readFileSync(this.filePath, "utf8");
+            const data = /\.ya?ml$/i.test(this.filePath) ? YAML.parse(raw) : JSON.parse(raw);
+            const parsed = protocolFileSchema.safeParse(data);
+            if (!parsed.success) {
+                console.error(`Invalid protocol file ${this.filePath}:`, parsed.error.message);
+                return [];
+            }
+            return Array.isArray(parsed.data) ? parsed.data : parsed.data.protocols;
+        } catch (error) {
+            console.error(`Error loading protocol file ${this.filePath}:`, error);
+            return [];
+        }
+    }
+}
+
+export const protocolRegistry = new ProtocolRegistry(PROTOCOLS_PATH);
@@ -0,0 +1,329 @@
+import {
+    AccountInfo,
+    AddressLookupTableAccount,
+    LAMPORTS_PER_SOL,
+    PublicKey,
+    StakeProgram,
+    SystemProgram,
+    VersionedTransaction,
+} from "@solana/web3.js";
+import {
+    Account,
+    Mint,
+    NATIVE_MINT,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    unpackAccount,
+    unpackMint,
+} from "@solana/spl-token";
+import { connection } from "./connection";
+import { getTokenSymbol } from "./holdings";
+import { addressLabels } from "./labels";
+import { assessSimulationRisks } from "../analyzers/simulationAnalyzer";
+import { AuthorityChange, SimulatedBalanceChange, SimulationResult } from "../types/interfaces";
+
+const SOL_MINT = NATIVE_MINT.toString();
+const SYSTEM_PROGRAM = SystemProgram.programId.toString();
+
+// Stake account layout: state (4), rent-exempt reserve (8), then the staker
+// and withdrawer authorities
+const STAKE_ACCOUNT = {
+    STAKER_OFFSET: 12,
+    WITHDRAWER_OFFSET: 44,
+};
+
+const U64_MAX = BigInt("0xffffffffffffffff");
+
+// getMultipleAccountsInfo accepts at most 100 accounts per call
+const ACCOUNT_BATCH_SIZE = 100;
+
+// Invocations logged by the runtime, including cross-program invocations
+const INVOKE_LOG = /^Program (\w{32,44}) invoke \[\d+\]$/;
+
+/**
+ * Simulates a base64-serialized legacy or v0 transaction against current
+ * chain state without requiring signatures, and compares the writable
+ * accounts before and after to report balance and authority changes.
+ *
+ * The blockhash is replaced with a recent one, so transactions built a while
+ * ago still simulate; the actual outcome can differ if state changes before
+ * the transaction lands.
+ */
+export async function simulateSerializedTransaction(serialized: string): Promise<SimulationResult> {
+    const tx = deserializeTransaction(serialized);
+    const { message } = tx;
+
+    const lookupTables = await Promise.all(
+        message.addressTableLookups.map(async (lookup) => {
+            const table = await connection.getAddressLookupTable(lookup.accountKey);
+            if (!table.value) throw new Error(`Address lookup table ${lookup.accountKey.toString()} not found`);
+            return table.value;
+        })
+    );
+    const keys = resolveAccountKeys(tx, lookupTables);
+
+    const programIds = new Set(message.compiledInstructions.map((ix) => keys[ix.programIdIndex]));
+    const signers = keys.slice(0, message.header.numRequiredSignatures);
+    const writable = keys.filter((key, index) => message.isAccountWritable(index) && !programIds.has(key));
+
+    const [before, simulation, fee] = await Promise.all([
+        fetchAccounts(writable),
+        connection.simulateTransaction(tx, {
+            sigVerify: false,
+            replaceRecentBlockhash: true,
+            accounts: { encoding: "base64", addresses: writable },
+        }),
+        connection.getFeeForMessage(message).then(
+            (result) => result.value,
+            () => null
+        ),
+    ]);
+
+    const { err, logs, accounts, unitsConsumed } = simulation.value;
+    for (const line of logs || []) {
+        const invoked = line.match(INVOKE_LOG);
+        if (invoked) programIds.add(invoked[1]);
+    }
+
+    const after = (accounts || []).map((account) =>
+        account
+            ? {
+                  executable: account.executable,
+                  owner: new PublicKey(account.owner),
+                  lamports: account.lamports,
+                  data: Buffer.from(account.data[0], "base64"),
+                  rentEpoch: account.rentEpoch,
+              }
+            : null
+    );
+
+    // Post-simulation state is only returned for transactions that succeed
+    const changes = after.length
+        ? await compareAccounts(writable, before, after, signers)
+        : { balanceChanges: [], authorityChanges: [] };
+
+    const result: SimulationResult = {
+        status: err === null ? "Success" : "Failed",
+        error: err === null ? undefined : typeof err === "string" ? err : JSON.stringify(err),
+        version: message.version,
+        feePayer: keys[0],
+        signers,
+        fee: fee !== null ? fee / LAMPORTS_PER_SOL : undefined,
+        unitsConsumed,
+        programIds: Array.from(programIds).map((id) => {
+            const { label, labelSource } = addressLabels.resolve(id);
+            return { id, name: label || "Unknown", known: labelSource !== "unknown" };
+        }),
+        ...changes,
+        logs: logs || [],
+        warnings: [],
+    };
+    result.warnings = assessSimulationRisks(result);
+
+    return result;
+}
+
+function deserializeTransaction(serialized: string): VersionedTransaction {
+    try {
+        return VersionedTransaction.deserialize(Buffer.from(serialized.trim(), "base64"));
+    } catch (error) {
+        throw new Error("Invalid transaction: expected a base64-serialized legacy or v0 transaction");
+    }
+}
+
+function resolveAccountKeys(tx: VersionedTransaction, lookupTables: AddressLookupTableAccount[]): string[] {
+    const accountKeys =
+        tx.message.version === "legacy"
+            ? tx.message.getAccountKeys()
+            : tx.message.getAccountKeys({ addressLookupTableAccounts: lookupTables });
+    return accountKeys
+        .keySegments()
+        .flat()
+        .map((key) => key.toString());
+}
+
+async function fetchAccounts(addresses: string[]): Promise<(AccountInfo<Buffer> | null)[]> {
+    const accounts: (AccountInfo<Buffer> | null)[] = [];
+    for (let i = 0; i < addresses.length; i += ACCOUNT_BATCH_SIZE) {
+        const batch = addresses.slice(i, i + ACCOUNT_BATCH_SIZE).map((address) => new PublicKey(address));
+        accounts.push(...(await connection.getMultipleAccountsInfo(batch)));
+    }
+    return accounts;
+}
+
+/**
+ * Diffs each writable account: lamports of wallets (system-owned accounts and
+ * signers), token balances per owner and mint, and the authorities held in
+ * token accounts, mints, stake accounts and account ownership itself.
+ * Reading state rather than instructions also catches changes made through
+ * cross-program invocations.
+ */
+async function compareAccounts(
+    addresses: string[],
+    before: (AccountInfo<Buffer> | null)[],
+    after: (AccountInfo<Buffer> | null)[],
+    signers: string[]
+): Promise<{ balanceChanges: SimulatedBalanceChange[]; authorityChanges: AuthorityChange[] }> {
+    const balances = new Map<string, { owner: string; mint: string; before: bigint; after: bigint }>();
+    const addBalance = (owner: string, mint: string, pre: bigint, post: bigint) => {
+        const key = `${owner}:${mint}`;
+        const entry = balances.get(key) || { owner, mint, before: BigInt(0), after: BigInt(0) };
+        entry.before += pre;
+        entry.after += post;
+        balances.set(key, entry);
+    };
+
+    const authorityChanges: AuthorityChange[] = [];
+    const delegations: Array<{ change: AuthorityChange; amount: bigint }> = [];
+    const mints = new Set<string>();
+
+    addresses.forEach((address, index) => {
+        const pre = before[index];
+        const post = after[index];
+        if (!pre && !post) return;
+
+        const preOwner = pre?.owner.toString();
+        const postOwner = post?.owner.toString();
+
+        if (preOwner === SYSTEM_PROGRAM || postOwner === SYSTEM_PROGRAM || signers.includes(address)) {
+            addBalance(address, SOL_MINT, BigInt(pre?.lamports || 0), BigInt(post?.lamports || 0));
+        }
+        if (pre && post && preOwner === SYSTEM_PROGRAM && postOwner !== SYSTEM_PROGRAM) {
+            authorityChanges.push({ account: address, kind: "programOwner", before: preOwner, after: postOwner });
+        }
+
+        const preToken = decodeTokenAccount(address, pre);
+        const postToken = decodeTokenAccount(address, post);
+        if (preToken || postToken) {
+            const mint = (postToken || preToken)!.mint.toString();
+            mints.add(mint);
+            // Attributed per owner, so a token account changing hands shows as
+            // a loss for the previous owner
+            if (preToken) addBalance(preToken.owner.toString(), mint, preToken.amount, BigInt(0));
+            if (postToken) addBalance(postToken.owner.toString(), mint, BigInt(0), postToken.amount);
+            if (preToken && postToken) {
+                authorityChanges.push(...diffTokenAccount(address, mint, preToken, postToken, delegations));
+            }
+            return;
+        }
+
+        const preMint = decodeMint(address, pre);
+        const postMint = decodeMint(address, post);
+        if (preMint && postMint) {
+            const mint = address;
+            const diff = (kind: AuthorityChange["kind"], a: PublicKey | null, b: PublicKey | null) => {
+                if (a?.toString() !== b?.toString()) {
+                    authorityChanges.push({ account: address, kind, mint, before: a?.toString(), after: b?.toString() });
+                }
+            };
+            diff("mintAuthority", preMint.mintAuthority, postMint.mintAuthority);
+            diff("freezeAuthority", preMint.freezeAuthority, postMint.freezeAuthority);
+            return;
+        }
+
+        if (pre && post && preOwner === StakeProgram.programId.toString() && postOwner === preOwner) {
+            const read = (data: Buffer, offset: number) =>
+                data.length >= offset + 32 ? new PublicKey(data.subarray(offset, offset + 32)).toString() : undefined;
+            for (const [kind, offset] of [
+                ["staker", STAKE_ACCOUNT.STAKER_OFFSET],
+                ["withdrawer", STAKE_ACCOUNT.WITHDRAWER_OFFSET],
+            ] as const) {
+                const preAuthority = read(pre.data, offset);
+                const postAuthority = read(post.data, offset);
+                // An uninitialized stake account has no authorities yet
+                if (pre.data.readUInt32LE(0) !== 0 && preAuthority !== postAuthority) {
+                    authorityChanges.push({ account: address, kind, before: preAuthority, after: postAuthority });
+                }
+            }
+        }
+    });
+
+    const mintInfo = await fetchMints(Array.from(mints));
+    const decimals = (mint: string) => (mint === SOL_MINT ? 9 : mintInfo.get(mint)?.decimals ?? 0);
+    const toUnits = (amount: bigint, mint: string) => Number(amount) / 10 ** decimals(mint);
+
+    for (const { change, amount } of delegations) {
+        const supply = mintInfo.get(change.mint!)?.supply;
+        change.amount = toUnits(amount, change.mint!);
+        change.unlimited = amount === U64_MAX || (supply !== undefined && amount >= supply);
+    }
+
+    const balanceChanges = Array.from(balances.values())
+        .filter((b) => b.before !== b.after)
+        .map(
+            (b): SimulatedBalanceChange => ({
+                owner: b.owner,
+                mint: b.mint,
+                symbol: getTokenSymbol(b.mint),
+                before: toUnits(b.before, b.mint),
+                after: toUnits(b.after, b.mint),
+                change: toUnits(b.after - b.before, b.mint),
+            })
+        );
+
+    return { balanceChanges, authorityChanges };
+}
+
+function diffTokenAccount(
+    address: string,
+    mint: string,
+    pre: Account,
+    post: Account,
+    delegations: Array<{ change: AuthorityChange; amount: bigint }>
+): AuthorityChange[] {
+    const changes: AuthorityChange[] = [];
+    const preOwner = pre.owner.toString();
+    const postOwner = post.owner.toString();
+    if (preOwner !== postOwner) {
+        changes.push({ account: address, kind: "owner", mint, before: preOwner, after: postOwner });
+    }
+
+    // A new delegate, or a larger allowance for the existing one
+    const preDelegate = pre.delegate?.toString();
+    const postDelegate = post.delegate?.toString();
+    if (postDelegate && (postDelegate !== preDelegate || post.delegatedAmount > pre.delegatedAmount)) {
+        const change: AuthorityChange = { account: address, kind: "delegate", mint, before: preDelegate, after: postDelegate };
+        delegations.push({ change, amount: post.delegatedAmount });
+        changes.push(change);
+    }
+
+    const preClose = pre.closeAuthority?.toString();
+    const postClose = post.closeAuthority?.toString();
+    if (postClose !== preClose) {
+        changes.push({ account: address, kind: "closeAuthority", mint, before: preClose, after: postClose });
+    }
+
+    return changes;
+}
+
+function isTokenProgram(owner: PublicKey): boolean {
+    return owner.equals(TOKEN_PROGRAM_ID) || owner.equals(TOKEN_2022_PROGRAM_ID);
+}
+
+function decodeTokenAccount(address: string, info: AccountInfo<Buffer> | null): Account | undefined {
+    if (!info || !isTokenProgram(info.owner)) return undefined;
+    try {
+        return unpackAccount(new PublicKey(address), info, info.owner);
+    } catch {
+        return undefined;
+    }
+}
+
+function decodeMint(address: string, info: AccountInfo<Buffer> | null): Mint | undefined {
+    if (!info || !isTokenProgram(info.owner)) return undefined;
+    try {
+        return unpackMint(new PublicKey(address), info, info.owner);
+    } catch {
+        return undefined;
+    }
+}
+
+async function fetchMints(mints: string[]): Promise<Map<string, Mint>> {
+    const accounts = await fetchAccounts(mints);
+    const decoded = new Map<string, Mint>();
+    mints.forEach((mint, index) => {
+        const info = decodeMint(mint, accounts[index]);
+        if (info) decoded.set(mint, info);
+    });
+    return decoded;
+}
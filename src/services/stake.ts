@@ -0,0 +1,187 @@
+import {
+    PublicKey,
+    StakeProgram,
+    ParsedAccountData,
+    AccountInfo,
+    LAMPORTS_PER_SOL,
+} from "@solana/web3.js";
+import { connection } from "./connection";
+import { StakeAccount, StakeActivationState, StakeOverview, StakeReward } from "../types/interfaces";
+
+// Stake account layout: state (4), rent-exempt reserve (8), then the staker
+// and withdrawer authorities
+const STAKE_ACCOUNT = {
+    STAKER_OFFSET: 12,
+    WITHDRAWER_OFFSET: 44,
+};
+
+// Epochs are stored as u64; unset activation/deactivation epochs are u64::MAX
+const UNSET_EPOCH = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Finds the wallet's native stake accounts (where it is the staker or
+ * withdrawer authority) and reads their delegation, activation state and
+ * lockup. Validator commission/status and inflation rewards for the last
+ * `rewardEpochs` epochs take extra RPC calls and are only read on request.
+ *
+ * Activation state treats warmup and cooldown as taking a single epoch, so
+ * very large stakes may still be partially activating when shown as active.
+ */
+export async function fetchStakeAccounts(
+    publicKey: string,
+    { rewardEpochs = 0, includeValidators = false }: { rewardEpochs?: number; includeValidators?: boolean } = {}
+): Promise<StakeOverview> {
+    const [byStaker, byWithdrawer, epochInfo] = await Promise.all([
+        findStakeAccounts(publicKey, STAKE_ACCOUNT.STAKER_OFFSET),
+        findStakeAccounts(publicKey, STAKE_ACCOUNT.WITHDRAWER_OFFSET),
+        connection.getEpochInfo(),
+    ]);
+    const currentEpoch = epochInfo.epoch;
+
+    const unique = new Map<string, AccountInfo<ParsedAccountData | Buffer>>();
+    for (const { pubkey, account } of [...byStaker, ...byWithdrawer]) {
+        unique.set(pubkey.toString(), account);
+    }
+
+    const accounts: StakeAccount[] = [];
+    unique.forEach((account, address) => {
+        const stakeAccount = toStakeAccount(address, account, currentEpoch);
+        if (stakeAccount) accounts.push(stakeAccount);
+    });
+
+    const warnings: string[] = [];
+    if (includeValidators && accounts.some((a) => a.validator)) {
+        await attachValidators(accounts).catch((error) => {
+            console.error("Error fetching vote accounts:", error);
+            warnings.push("Validator commission and status are unavailable.");
+        });
+    }
+    if (rewardEpochs > 0 && accounts.length > 0) {
+        warnings.push(...(await attachRewards(accounts, currentEpoch, rewardEpochs)));
+    }
+
+    return {
+        address: publicKey,
+        currentEpoch,
+        accounts: accounts.sort((a, b) => b.balance - a.balance),
+        warnings,
+    };
+}
+
+async function findStakeAccounts(publicKey: string, authorityOffset: number) {
+    return connection.getParsedProgramAccounts(StakeProgram.programId, {
+        filters: [{ memcmp: { offset: authorityOffset, bytes: publicKey } }],
+    });
+}
+
+function toStakeAccount(
+    address: string,
+    account: AccountInfo<ParsedAccountData | Buffer>,
+    currentEpoch: number
+): StakeAccount | undefined {
+    const data = account.data;
+    if (!data || Buffer.isBuffer(data)) return undefined;
+
+    const info = data.parsed?.info;
+    const meta = info?.meta;
+    if (!meta) return undefined;
+
+    const delegation = info.stake?.delegation;
+    const activationEpoch = toEpoch(delegation?.activationEpoch);
+    const deactivationEpoch = toEpoch(delegation?.deactivationEpoch);
+    const lockupTimestamp = Number(meta.lockup.unixTimestamp) * 1000;
+    const lockupEpoch = Number(meta.lockup.epoch);
+
+    return {
+        address,
+        balance: account.lamports / LAMPORTS_PER_SOL,
+        delegatedStake: delegation ? Number(delegation.stake) / LAMPORTS_PER_SOL : undefined,
+        state: getActivationState(currentEpoch, activationEpoch, deactivationEpoch, !!delegation),
+        validator: delegation?.voter,
+        activationEpoch,
+        deactivationEpoch,
+        staker: meta.authorized.staker,
+        withdrawer: meta.authorized.withdrawer,
+        lockup: {
+            unixTimestamp: lockupTimestamp,
+            epoch: lockupEpoch,
+            custodian: meta.lockup.custodian,
+            inForce: lockupTimestamp > Date.now() || lockupEpoch > currentEpoch,
+        },
+        rewards: [],
+    };
+}
+
+function toEpoch(value: string | number | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const epoch = Number(value);
+    return epoch >= UNSET_EPOCH ? undefined : epoch;
+}
+
+/**
+ * Stake delegated in epoch E warms up during E and is active from E + 1;
+ * stake deactivated in epoch D cools down during D and is inactive from D + 1
+ */
+function getActivationState(
+    currentEpoch: number,
+    activationEpoch: number | undefined,
+    deactivationEpoch: number | undefined,
+    delegated: boolean
+): StakeActivationState {
+    if (!delegated) return "inactive";
+    if (deactivationEpoch !== undefined) {
+        return currentEpoch > deactivationEpoch || deactivationEpoch === activationEpoch
+            ? "inactive"
+            : "deactivating";
+    }
+    // Genesis stakes have no activation epoch and have always been active
+    if (activationEpoch === undefined) return "active";
+    return currentEpoch > activationEpoch ? "active" : "activating";
+}
+
+async function attachValidators(accounts: StakeAccount[]): Promise<void> {
+    const { current, delinquent } = await connection.getVoteAccounts();
+    const validators = new Map<string, { commission: number; delinquent: boolean }>();
+    for (const v of current) validators.set(v.votePubkey, { commission: v.commission, delinquent: false });
+    for (const v of delinquent) validators.set(v.votePubkey, { commission: v.commission, delinquent: true });
+
+    for (const account of accounts) {
+        const validator = account.validator ? validators.get(account.validator) : undefined;
+        if (!validator) continue;
+        account.validatorCommission = validator.commission;
+        account.validatorDelinquent = validator.delinquent;
+    }
+}
+
+/**
+ * Reads inflation rewards for the completed epochs before the current one.
+ * Nodes prune old reward data, so epochs that fail are reported rather than
+ * failing the whole lookup.
+ */
+async function attachRewards(accounts: StakeAccount[], currentEpoch: number, epochs: number): Promise<string[]> {
+    const addresses = accounts.map((a) => new PublicKey(a.address));
+    const unavailable: number[] = [];
+
+    for (let epoch = currentEpoch - 1; epoch >= Math.max(0, currentEpoch - epochs); epoch--) {
+        try {
+            const rewards = await connection.getInflationReward(addresses, epoch);
+            rewards.forEach((reward, index) => {
+                if (!reward) return;
+                const entry: StakeReward = {
+                    epoch: reward.epoch,
+                    amount: reward.amount / LAMPORTS_PER_SOL,
+                    postBalance: reward.postBalance / LAMPORTS_PER_SOL,
+                    commission: reward.commission ?? undefined,
+                };
+                accounts[index].rewards.push(entry);
+            });
+        } catch (error) {
+            console.error(`Error fetching inflation rewards for epoch ${epoch}:`, error);
+            unavailable.push(epoch);
+        }
+    }
+
+    return unavailable.length
+        ? [`Inflation rewards unavailable for epoch(s) ${unavailable.join(", ")}.`]
+        : [];
+}
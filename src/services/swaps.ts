@@ -0,0 +1,161 @@
+import { ParsedInstruction, ParsedTransactionWithMeta } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { ProtocolCategory, SwapDetails, TokenMovement } from "../types/interfaces";
+import { protocolRegistry } from "./protocolRegistry";
+import { getTokenSymbol } from "./holdings";
+import {
+    collectInstructions,
+    computeTokenMovements,
+    getPrimaryProgramId,
+    getTokenAccountRent,
+    getWalletFee,
+    mapTokenAccounts,
+} from "./transaction";
+
+const SOL_MINT = NATIVE_MINT.toString();
+
+// Protocols whose transactions are decoded as swaps, and those that count as route hops
+const SWAP_VENUE_CATEGORIES: ProtocolCategory[] = ["aggregator", "dex", "orderbook"];
+const ROUTE_CATEGORIES: ProtocolCategory[] = ["dex", "orderbook"];
+
+/**
+ * Decodes what the wallet traded in a Jupiter, Raydium, Orca, FluxBeam or other
+ * registered swap venue transaction.
+ *
+ * Input and output legs come from the wallet's balance deltas, with SOL
+ * corrected for rent spent on (or refunded from) token accounts opened or
+ * closed by the swap. Legs the deltas can't show, e.g. in transactions without
+ * token balance owners, are taken from the inner SPL token transfers the wallet
+ * signed or received. SOL tips sent alongside a SOL-input swap are included in
+ * its input amount.
+ *
+ * Only the network fee is reported as a fee. Platform and LP fees can't be
+ * told apart from pool transfers, so they show up as a worse effective price.
+ *
+ * @returns Swap details, or undefined if the transaction isn't a decodable swap
+ */
+export function decodeSwap(
+    tx: ParsedTransactionWithMeta,
+    walletAddress: string
+): SwapDetails | undefined {
+    if (!tx.meta || tx.meta.err !== null) return undefined;
+
+    const venue = protocolRegistry.findByProgramId(getPrimaryProgramId(tx));
+    if (!venue || !SWAP_VENUE_CATEGORIES.includes(venue.category)) return undefined;
+
+    const movements = getSwapMovements(tx, walletAddress);
+    let input = pickLeg(movements, "out");
+    let output = pickLeg(movements, "in");
+
+    if (!input || !output) {
+        const transfers = getTransferMovements(tx, walletAddress);
+        input = input || pickLeg(transfers, "out", output?.mint);
+        output = output || pickLeg(transfers, "in", input?.mint);
+    }
+    if (!input || !output || input.mint === output.mint) return undefined;
+
+    const inputAmount = Math.abs(input.amount);
+    const outputAmount = Math.abs(output.amount);
+
+    return {
+        inputMint: input.mint,
+        inputSymbol: input.symbol,
+        inputAmount,
+        outputMint: output.mint,
+        outputSymbol: output.symbol,
+        outputAmount,
+        price: outputAmount / inputAmount,
+        venue: venue.id,
+        route: getRoute(tx, venue.id),
+        networkFee: getWalletFee(tx, walletAddress),
+    };
+}
+
+/**
+ * Wallet balance deltas with token account rent removed from the SOL leg
+ */
+function getSwapMovements(tx: ParsedTransactionWithMeta, walletAddress: string): TokenMovement[] {
+    const rent = getTokenAccountRent(tx, walletAddress);
+
+    return computeTokenMovements(tx, walletAddress)
+        .map((movement) => {
+            if (movement.mint !== SOL_MINT || rent === 0) return movement;
+            const amount = movement.amount + rent;
+            return { ...movement, amount, direction: amount > 0 ? ("in" as const) : ("out" as const) };
+        })
+        .filter((movement) => Math.abs(movement.amount) > MIN_SOL_LEG || movement.mint !== SOL_MINT);
+}
+
+/**
+ * Token amounts moved by SPL transfers the wallet authorised (out) or that
+ * landed in accounts it owns (in), aggregated per mint
+ */
+function getTransferMovements(tx: ParsedTransactionWithMeta, walletAddress: string): TokenMovement[] {
+    const accounts = mapTokenAccounts(tx);
+
+    const deltas = new Map<string, number>();
+    for (const ix of collectInstructions(tx)) {
+        const parsed = (ix as ParsedInstruction).parsed;
+        if (
+            (ix as ParsedInstruction).program !== "spl-token" ||
+            (parsed?.type !== "transfer" && parsed?.type !== "transferChecked")
+        ) {
+            continue;
+        }
+
+        const info = parsed.info;
+        const source = accounts.get(info.source);
+        const destination = accounts.get(info.destination);
+        const mint: string | undefined = info.mint || source?.mint || destination?.mint;
+        const decimals = info.tokenAmount?.decimals ?? source?.decimals ?? destination?.decimals;
+        if (!mint || decimals === undefined) continue;
+
+        const amount = Number(info.tokenAmount?.amount ?? info.amount) / Math.pow(10, decimals);
+        if (info.authority === walletAddress || source?.owner === walletAddress) {
+            deltas.set(mint, (deltas.get(mint) || 0) - amount);
+        }
+        if (destination?.owner === walletAddress) {
+            deltas.set(mint, (deltas.get(mint) || 0) + amount);
+        }
+    }
+
+    return Array.from(deltas.entries())
+        .filter(([, amount]) => amount !== 0)
+        .map(([mint, amount]) => ({
+            mint,
+            symbol: getTokenSymbol(mint),
+            amount,
+            direction: amount > 0 ? ("in" as const) : ("out" as const),
+        }))
+        .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+}
+
+/**
+ * Picks the movement that best represents one side of a swap: the largest
+ * token movement in that direction, or SOL when no other token moved
+ */
+function pickLeg(
+    movements: TokenMovement[],
+    direction: "in" | "out",
+    excludeMint?: string
+): TokenMovement | undefined {
+    const candidates = movements.filter((m) => m.direction === direction && m.mint !== excludeMint);
+    return candidates.find((m) => m.mint !== SOL_MINT) || candidates[0];
+}
+
+/**
+ * DEX and orderbook protocols the swap executed through, in order of first use
+ */
+function getRoute(tx: ParsedTransactionWithMeta, venueId: string): string[] {
+    const route = new Set<string>();
+    for (const ix of collectInstructions(tx)) {
+        const protocol = protocolRegistry.findByProgramId(ix.programId.toString());
+        if (protocol && ROUTE_CATEGORIES.includes(protocol.category)) {
+            route.add(protocol.id);
+        }
+    }
+    return route.size > 0 ? Array.from(route) : [venueId];
+}
+
+// SOL left over after rent correction below this is noise, not a swap leg
+const MIN_SOL_LEG = 1e-6;
@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import { EXPORT_DIR } from "../config/constants";
+import { toCsvRow } from "../utils/csv";
+import { TaxEvent, TaxExportLayout, TaxExportResult } from "../types/interfaces";
+
+interface CsvLayout {
+    header: string[];
+    toRow(event: TaxEvent): Array<string | number | undefined>;
+}
+
+// Income labels understood by each tool; fee-only rows are "cost" in Koinly
+const KOINLY_LABELS: Record<string, string> = { staking: "staking", reward: "reward", airdrop: "airdrop" };
+const COINTRACKER_TAGS: Record<string, string> = { staking: "staked", reward: "income", airdrop: "airdrop" };
+
+const LAYOUTS: Record<TaxExportLayout, CsvLayout> = {
+    generic: {
+        header: [
+            "Date",
+            "Type",
+            "Sent Amount",
+            "Sent Currency",
+            "Received Amount",
+            "Received Currency",
+            "Fee Amount",
+            "Fee Currency",
+            "Value (USD)",
+            "Label",
+            "Description",
+            "TxHash",
+        ],
+        toRow: (e) => [
+            new Date(e.timestamp).toISOString(),
+            e.kind,
+            formatAmount(e.sentAmount),
+            e.sentCurrency,
+            formatAmount(e.receivedAmount),
+            e.receivedCurrency,
+            formatAmount(e.feeAmount),
+            e.feeCurrency,
+            formatUsdAmount(e.usdValue),
+            e.label,
+            e.description,
+            e.signature,
+        ],
+    },
+    // Koinly universal CSV format
+    koinly: {
+        header: [
+            "Date",
+            "Sent Amount",
+            "Sent Currency",
+            "Received Amount",
+            "Received Currency",
+            "Fee Amount",
+            "Fee Currency",
+            "Net Worth Amount",
+            "Net Worth Currency",
+            "Label",
+            "Description",
+            "TxHash",
+        ],
+        toRow: (e) => {
+            const feeOnly = e.kind === "fee";
+            return [
+                formatUtcDate(e.timestamp, "koinly"),
+                formatAmount(feeOnly ? e.feeAmount : e.sentAmount),
+                feeOnly ? e.feeCurrency : e.sentCurrency,
+                formatAmount(e.receivedAmount),
+                e.receivedCurrency,
+                formatAmount(feeOnly ? undefined : e.feeAmount),
+                feeOnly ? undefined : e.feeCurrency,
+                formatUsdAmount(e.usdValue),
+                e.usdValue !== undefined ? "USD" : undefined,
+                feeOnly ? "cost" : e.label ? KOINLY_LABELS[e.label] : undefined,
+                e.description,
+                e.signature,
+            ];
+        },
+    },
+    // CoinTracker CSV import format
+    cointracker: {
+        header: [
+            "Date",
+            "Received Quantity",
+            "Received Currency",
+            "Sent Quantity",
+            "Sent Currency",
+            "Fee Amount",
+            "Fee Currency",
+            "Tag",
+        ],
+        toRow: (e) => [
+            formatUtcDate(e.timestamp, "cointracker"),
+            formatAmount(e.receivedAmount),
+            e.receivedCurrency,
+            formatAmount(e.sentAmount),
+            e.sentCurrency,
+            formatAmount(e.feeAmount),
+            e.feeCurrency,
+            e.label ? COINTRACKER_TAGS[e.label] : undefined,
+        ],
+    },
+};
+
+export const TAX_EXPORT_LAYOUTS = Object.keys(LAYOUTS) as TaxExportLayout[];
+
+/**
+ * Serializes tax events as CSV in the given column layout
+ */
+export function serializeTaxEvents(events: TaxEvent[], layout: TaxExportLayout): string {
+    const { header, toRow } = LAYOUTS[layout];
+    return [toCsvRow(header), ...events.map((event) => toCsvRow(toRow(event)))].join("\n") + "\n";
+}
+
+/**
+ * Writes tax events to a timestamped CSV file in EXPORT_DIR
+ * @returns The written file path along with the exported events
+ */
+export function writeTaxEventsCsv(
+    walletAddress: string,
+    events: TaxEvent[],
+    layout: TaxExportLayout
+): TaxExportResult {
+    fs.mkdirSync(EXPORT_DIR, { recursive: true });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const filePath = path.join(EXPORT_DIR, `${walletAddress}-${layout}-${stamp}.csv`);
+    fs.writeFileSync(filePath, serializeTaxEvents(events, layout));
+
+    return { filePath, layout, events };
+}
+
+function formatAmount(amount: number | undefined): string | undefined {
+    if (amount === undefined) return undefined;
+    // Plain decimal notation; tax tools reject exponents like 1e-7
+    return amount.toLocaleString("en-US", { useGrouping: false, maximumFractionDigits: 12 });
+}
+
+function formatUsdAmount(value: number | undefined): string | undefined {
+    return value !== undefined ? value.toFixed(2) : undefined;
+}
+
+/**
+ * Koinly expects `YYYY-MM-DD HH:mm:ss UTC`, CoinTracker `MM/DD/YYYY HH:mm:ss`, both in UTC
+ */
+function formatUtcDate(timestamp: number, layout: "koinly" | "cointracker"): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => value.toString().padStart(2, "0");
+    const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+
+    return layout === "koinly"
+        ? `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ${time} UTC`
+        : `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()} ${time}`;
+}
@@ -1,54 +1,131 @@
-import { ParsedTransactionWithMeta, ParsedInstruction, PartiallyDecodedInstruction, LAMPORTS_PER_SOL } from "@solana/web3.js";
-import { KNOWN_PROGRAMS } from "../config/constants";
+import {
+    ParsedTransactionWithMeta,
+    ParsedInstruction,
+    PartiallyDecodedInstruction,
+    TokenBalance,
+    LAMPORTS_PER_SOL,
+} from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { INFRASTRUCTURE_PROGRAMS } from "../config/constants";
+import { ProtocolCategory, TokenMovement } from "../types/interfaces";
+import { getTokenSymbol } from "./holdings";
+import { protocolRegistry } from "./protocolRegistry";
 
+/**
+ * Returns the registry id of the protocol owning a program, or "Unknown"
+ */
 export function identifyProtocol(programId: string): string {
-    for (const [name, id] of Object.entries(KNOWN_PROGRAMS)) {
-        if (id === programId) {
-            return name;
+    return protocolRegistry.findByProgramId(programId)?.id || "Unknown";
+}
+
+// Activity types implied by the category of a transaction's primary protocol
+const CATEGORY_ACTIVITY_TYPES: Partial<Record<ProtocolCategory, string>> = {
+    aggregator: "Swap",
+    dex: "Swap",
+    orderbook: "Swap",
+    perps: "Trading",
+    lending: "Lending",
+    staking: "Staking",
+    marketplace: "NFT Trade",
+};
+
+type TransactionInstruction = ParsedInstruction | PartiallyDecodedInstruction;
+
+/**
+ * Returns top-level instructions followed by the inner (CPI) instructions
+ * they invoked, in execution order
+ */
+export function collectInstructions(tx: ParsedTransactionWithMeta): TransactionInstruction[] {
+    const instructions: TransactionInstruction[] = [];
+    const innerByIndex = new Map<number, TransactionInstruction[]>();
+
+    for (const inner of tx.meta?.innerInstructions || []) {
+        innerByIndex.set(inner.index, inner.instructions);
+    }
+
+    tx.transaction.message.instructions.forEach((ix, index) => {
+        instructions.push(ix, ...(innerByIndex.get(index) || []));
+    });
+
+    return instructions;
+}
+
+/**
+ * Picks the program that best describes the transaction: the known protocol
+ * ranked highest by the protocol registry, otherwise the first top-level
+ * program that isn't compute budget or similar infrastructure
+ */
+export function getPrimaryProgramId(tx: ParsedTransactionWithMeta): string {
+    const programIds = collectInstructions(tx).map((ix) => ix.programId.toString());
+
+    let primary: string | undefined;
+    let bestRank = Infinity;
+    for (const programId of programIds) {
+        const rank = protocolRegistry.rank(identifyProtocol(programId));
+        if (rank < bestRank) {
+            bestRank = rank;
+            primary = programId;
         }
     }
-    return "Unknown";
+    if (primary) return primary;
+
+    const fallback = tx.transaction.message.instructions
+        .map((ix) => ix.programId.toString())
+        .find((id) => !(INFRASTRUCTURE_PROGRAMS as readonly string[]).includes(id));
+
+    return fallback || "Unknown";
+}
+
+/**
+ * Lists every known protocol a transaction touched, ordered by precedence
+ */
+export function getTouchedProtocols(tx: ParsedTransactionWithMeta): string[] {
+    const protocols = new Set(
+        collectInstructions(tx)
+            .map((ix) => identifyProtocol(ix.programId.toString()))
+            .filter((name) => name !== "Unknown")
+    );
+
+    return Array.from(protocols).sort((a, b) => protocolRegistry.rank(a) - protocolRegistry.rank(b));
 }
 
+/**
+ * Classifies a transaction from its top-level and inner instructions.
+ * The primary protocol decides first, so token-program CPIs made by a DEX or
+ * staking program (transfers, LP or mSOL mints) don't mask what the
+ * transaction actually did; generic instruction checks apply otherwise.
+ */
 export function classifyTransaction(tx: ParsedTransactionWithMeta): string {
     if (!tx.transaction.message.instructions || tx.transaction.message.instructions.length === 0) {
         return "Unknown";
     }
 
-    const instructions = tx.transaction.message.instructions;
+    const primaryProtocol = protocolRegistry.findByProgramId(getPrimaryProgramId(tx));
+    const protocolType = primaryProtocol && CATEGORY_ACTIVITY_TYPES[primaryProtocol.category];
+
+    const instructions = collectInstructions(tx);
     const instructionSummary = instructions.map((ix) => ({
         program: (ix as ParsedInstruction).program || "",
         type: (ix as ParsedInstruction).parsed?.type || "",
-        programId: typeof ix === "object" && "programId" in ix ? ix.programId.toString() : "",
+        programId: ix.programId.toString(),
     }));
 
+    if (protocolType) return protocolType;
+
+    // Only a single token minted from a zero-decimal mint is an NFT. NFT mints
+    // usually initialize their mint in the same transaction, so this comes
+    // before the token creation check.
+    const tokenAccounts = mapTokenAccounts(tx);
+    const mints = instructions
+        .filter((ix) => isTokenProgram(ix) && MINT_INSTRUCTIONS.includes((ix as ParsedInstruction).parsed?.type))
+        .map((ix) => (ix as ParsedInstruction).parsed.info);
+    if (mints.some((info) => isSingleNftUnit(info, tokenAccounts))) return "NFT Mint";
+
     const hasTokenCreation = instructionSummary.some(
         (ix) => ix.type === "initializeMint" || ix.type === "initializeTokenMetadata"
     );
     if (hasTokenCreation) return "Token Creation";
-
-    const hasNftMint = instructionSummary.some(
-        (ix) => ix.programId === KNOWN_PROGRAMS.METAPLEX || 
-        (ix.type === "mintTo" && ix.program === "spl-token")
-    );
-    if (hasNftMint) return "NFT Mint";
-
-    const hasDexOperation = instructionSummary.some(
-        (ix) => ix.programId === KNOWN_PROGRAMS.RAYDIUM_SWAP ||
-        ix.programId === KNOWN_PROGRAMS.ORCA_SWAP ||
-        ix.programId === KNOWN_PROGRAMS.JUPITER_AGGREGATOR ||
-        ix.programId === KNOWN_PROGRAMS.SERUM_DEX_V3 ||
-        ix.programId === KNOWN_PROGRAMS.FLUXBEAM
-    );
-    if (hasDexOperation) return "Swap";
-
-    if (instructionSummary.some((ix) => ix.programId === KNOWN_PROGRAMS.MARINADE_STAKING)) {
-        return "Staking";
-    }
-
-    if (instructionSummary.some((ix) => ix.programId === KNOWN_PROGRAMS.SOLEND)) {
-        return "Lending";
-    }
+    if (mints.length > 0) return "Token Mint";
 
     const hasTokenTransfer = instructionSummary.some(
         (ix) => (ix.program === "spl-token" && ix.type === "transfer") ||
@@ -70,23 +147,187 @@ export function classifyTransaction(tx: ParsedTransactionWithMeta): string {
     return "Other";
 }
 
-export function estimateTransactionValue(tx: ParsedTransactionWithMeta): number | undefined {
+const MINT_INSTRUCTIONS = ["mintTo", "mintToChecked"];
+
+function isTokenProgram(ix: TransactionInstruction): boolean {
+    const program = (ix as ParsedInstruction).program;
+    return program === "spl-token" || program === "spl-token-2022";
+}
+
+/**
+ * Whether a parsed mintTo/mintToChecked creates exactly one unit of a
+ * zero-decimal mint. The decimals come from the instruction itself or from
+ * the destination account's token balance.
+ */
+function isSingleNftUnit(
+    info: { account: string; amount?: string; tokenAmount?: { amount: string; decimals: number } },
+    tokenAccounts: ReturnType<typeof mapTokenAccounts>
+): boolean {
+    const amount = info.tokenAmount?.amount ?? info.amount;
+    const decimals = info.tokenAmount?.decimals ?? tokenAccounts.get(info.account)?.decimals;
+    return amount === "1" && decimals === 0;
+}
+
+/**
+ * Measures the absolute SOL balance change of the analyzed wallet, falling
+ * back to the fee payer when no wallet is given
+ */
+export function estimateTransactionValue(
+    tx: ParsedTransactionWithMeta,
+    walletAddress?: string
+): number | undefined {
     if (!tx.meta) return undefined;
 
     const preBalances = tx.meta.preBalances;
     const postBalances = tx.meta.postBalances;
 
     if (preBalances && postBalances && preBalances.length > 0) {
-        const feePayer = tx.transaction.message.accountKeys[0].pubkey.toString();
-        const feePayerIndex = tx.transaction.message.accountKeys.findIndex(
-            (key) => key.pubkey.toString() === feePayer
-        );
+        const walletIndex = walletAddress
+            ? tx.transaction.message.accountKeys.findIndex((key) => key.pubkey.toString() === walletAddress)
+            : 0;
 
-        if (feePayerIndex >= 0) {
-            const balanceDiff = Math.abs(preBalances[feePayerIndex] - postBalances[feePayerIndex]);
+        if (walletIndex >= 0) {
+            const balanceDiff = Math.abs(preBalances[walletIndex] - postBalances[walletIndex]);
             return balanceDiff / LAMPORTS_PER_SOL;
         }
     }
 
     return undefined;
-} 
\ No newline at end of file
+}
+
+// Instruction names programs log for claiming accrued rewards, e.g.
+// "Program log: Instruction: ClaimRewards" or "Instruction: Harvest"
+const REWARD_CLAIM_LOG = /^Program log: Instruction: \w*\s?(Claim|Harvest)/i;
+
+/**
+ * Whether the transaction claimed rewards, judged from the instruction names
+ * programs log. Withdrawing stake or borrowing also pays out tokens but isn't
+ * a claim.
+ */
+export function isRewardClaim(tx: ParsedTransactionWithMeta): boolean {
+    return (tx.meta?.logMessages || []).some((line) => REWARD_CLAIM_LOG.test(line));
+}
+
+/**
+ * Returns the network fee in SOL if the wallet paid it, otherwise 0
+ */
+export function getWalletFee(tx: ParsedTransactionWithMeta, walletAddress: string): number {
+    const feePayer = tx.transaction.message.accountKeys[0]?.pubkey.toString();
+    return feePayer === walletAddress ? (tx.meta?.fee || 0) / LAMPORTS_PER_SOL : 0;
+}
+
+/**
+ * Computes the wallet's net balance change per mint from pre/post token
+ * balances and lamport balances. Native SOL excludes the network fee and is
+ * reported under the wrapped SOL mint so wrapping and unwrapping net out.
+ */
+export function computeTokenMovements(
+    tx: ParsedTransactionWithMeta,
+    walletAddress: string
+): TokenMovement[] {
+    if (!tx.meta) return [];
+
+    const deltas = new Map<string, number>();
+    const decimals = new Map<string, number>([[NATIVE_MINT.toString(), 9]]);
+    const addDelta = (mint: string, amount: number) =>
+        deltas.set(mint, (deltas.get(mint) || 0) + amount);
+
+    const walletIndex = tx.transaction.message.accountKeys.findIndex(
+        (key) => key.pubkey.toString() === walletAddress
+    );
+    if (walletIndex >= 0) {
+        const lamportDelta = tx.meta.postBalances[walletIndex] - tx.meta.preBalances[walletIndex];
+        const feeLamports = getWalletFee(tx, walletAddress) * LAMPORTS_PER_SOL;
+        addDelta(NATIVE_MINT.toString(), (lamportDelta + feeLamports) / LAMPORTS_PER_SOL);
+    }
+
+    for (const balance of tx.meta.preTokenBalances || []) {
+        if (balance.owner !== walletAddress) continue;
+        addDelta(balance.mint, -toUiAmount(balance));
+        decimals.set(balance.mint, balance.uiTokenAmount.decimals);
+    }
+    for (const balance of tx.meta.postTokenBalances || []) {
+        if (balance.owner !== walletAddress) continue;
+        addDelta(balance.mint, toUiAmount(balance));
+        decimals.set(balance.mint, balance.uiTokenAmount.decimals);
+    }
+
+    return Array.from(deltas.entries())
+        .filter(([, amount]) => Math.abs(amount) > MOVEMENT_EPSILON)
+        .map(([mint, amount]) => ({
+            mint,
+            symbol: getTokenSymbol(mint),
+            amount,
+            direction: amount > 0 ? ("in" as const) : ("out" as const),
+            decimals: decimals.get(mint),
+        }))
+        .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+}
+
+/**
+ * Maps each token account in the transaction's token balances to its mint,
+ * owner and decimals, keyed by account address
+ */
+export function mapTokenAccounts(
+    tx: ParsedTransactionWithMeta
+): Map<string, { mint: string; owner?: string; decimals: number }> {
+    const accountKeys = tx.transaction.message.accountKeys;
+    const accounts = new Map<string, { mint: string; owner?: string; decimals: number }>();
+    for (const balance of [...(tx.meta?.preTokenBalances || []), ...(tx.meta?.postTokenBalances || [])]) {
+        accounts.set(accountKeys[balance.accountIndex].pubkey.toString(), {
+            mint: balance.mint,
+            owner: balance.owner,
+            decimals: balance.uiTokenAmount.decimals,
+        });
+    }
+    return accounts;
+}
+
+/**
+ * Net SOL the wallet put into rent for its token accounts created in the
+ * transaction, less rent refunded from accounts it closed. Wrapped SOL held
+ * in those accounts is excluded as it's already part of the SOL delta.
+ */
+export function getTokenAccountRent(tx: ParsedTransactionWithMeta, walletAddress: string): number {
+    const meta = tx.meta!;
+    const walletAccounts = new Set(
+        [...(meta.preTokenBalances || []), ...(meta.postTokenBalances || [])]
+            .filter((balance) => balance.owner === walletAddress)
+            .map((balance) => balance.accountIndex)
+    );
+
+    const wrappedLamports = (balances: typeof meta.preTokenBalances, index: number) => {
+        const balance = balances?.find((b) => b.accountIndex === index && b.mint === NATIVE_MINT.toString());
+        return balance ? Number(balance.uiTokenAmount.amount) : 0;
+    };
+
+    let rentLamports = 0;
+    for (const index of walletAccounts) {
+        const pre = meta.preBalances[index];
+        const post = meta.postBalances[index];
+        // Only accounts opened or closed by this transaction moved rent
+        if ((pre === 0) === (post === 0)) continue;
+        rentLamports +=
+            post - wrappedLamports(meta.postTokenBalances, index) -
+            (pre - wrappedLamports(meta.preTokenBalances, index));
+    }
+
+    return rentLamports / LAMPORTS_PER_SOL;
+}
+
+/**
+ * Picks the token that best represents an activity: the largest non-SOL
+ * movement, or SOL when only SOL moved
+ */
+export function getPrimaryToken(movements: TokenMovement[]): string | undefined {
+    const solMint = NATIVE_MINT.toString();
+    const token = movements.find((m) => m.mint !== solMint) || movements[0];
+    return token?.symbol;
+}
+
+// Balance changes below this are rounding noise
+const MOVEMENT_EPSILON = 1e-12;
+
+function toUiAmount(balance: TokenBalance): number {
+    return Number(balance.uiTokenAmount.amount) / Math.pow(10, balance.uiTokenAmount.decimals);
+}
@@ -0,0 +1,35 @@
+import { TransactionSignature, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { connection } from "./connection";
+import { classifyTransaction, collectInstructions } from "./transaction";
+import { addressLabels } from "./labels";
+import { getSolUsdPrice } from "./price";
+import { TransactionDetails } from "../types/interfaces";
+
+/**
+ * Fetches a transaction and summarizes its status, fee, accounts and programs
+ * @returns Undefined when the transaction isn't found
+ */
+export async function fetchTransactionDetails(signature: string): Promise<TransactionDetails | undefined> {
+    const tx = await connection.getParsedTransaction(signature as TransactionSignature, {
+        maxSupportedTransactionVersion: 0,
+    });
+    if (!tx) return undefined;
+
+    const blockTime = (tx.blockTime || 0) * 1000;
+    const fee = (tx.meta?.fee || 0) / LAMPORTS_PER_SOL;
+    const solPrice = await getSolUsdPrice(blockTime);
+
+    return {
+        signature,
+        blockTime,
+        fee,
+        feeUsd: solPrice !== undefined ? fee * solPrice : undefined,
+        status: tx.meta?.err === null ? "Success" : "Failed",
+        type: classifyTransaction(tx),
+        accounts: tx.transaction.message.accountKeys.map((key) => key.pubkey.toString()),
+        programIds: Array.from(new Set(collectInstructions(tx).map((ix) => ix.programId.toString()))).map((id) => ({
+            id,
+            name: addressLabels.resolve(id).label || "Unknown",
+        })),
+    };
+}
@@ -1,90 +1,294 @@
-import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { PublicKey, ConfirmedSignatureInfo } from "@solana/web3.js";
 import { connection, delay } from "./connection";
 import { walletCache } from "../utils/cache";
-import { WalletActivity, WalletProfile, DeFiPosition } from "../types/interfaces";
-import { classifyTransaction, estimateTransactionValue, identifyProtocol } from "./transaction";
+import { HISTORY_CONFIG } from "../config/constants";
+import {
+    WalletActivity,
+    WalletProfile,
+    ActivityPage,
+    ActivityMarker,
+    FetchTransactionsOptions,
+} from "../types/interfaces";
+import {
+    classifyTransaction,
+    estimateTransactionValue,
+    identifyProtocol,
+    getPrimaryProgramId,
+    getTouchedProtocols,
+    computeTokenMovements,
+    getPrimaryToken,
+    getWalletFee,
+    isRewardClaim,
+} from "./transaction";
+import { decodeSwap } from "./swaps";
+import { extractCounterpartyTransfers } from "./counterparties";
+import { decodeNftTrade, describeNftTrade, NFT_ACTION_TYPES } from "./nfts";
+import { attachUsdValues } from "./price";
+import { protocolRegistry } from "./protocolRegistry";
+import { walletEvents } from "./walletEvents";
 
 export async function fetchWalletTransactions(
     publicKey: string,
-    limit: number = 20
+    limit: number = 20,
+    options: FetchTransactionsOptions = {}
 ): Promise<WalletActivity[]> {
-    try {
-        const cachedData = walletCache.get(publicKey);
-        if (cachedData && !walletCache.isStale(publicKey)) {
-            return cachedData.activities.slice(0, limit);
+    const page = await fetchWalletActivityPage(publicKey, limit, options);
+    return page.activities;
+}
+
+export async function fetchWalletActivityPage(
+    publicKey: string,
+    limit: number = 20,
+    options: FetchTransactionsOptions = {}
+): Promise<ActivityPage> {
+    const isHeadRequest = !options.before && !options.until && !options.startTime && !options.endTime;
+
+    if (!isHeadRequest) {
+        const { signatures, nextCursor } = await fetchSignatures(publicKey, limit, options);
+        const activities = await parseSignatures(publicKey, signatures);
+
+        return {
+            activities: await attachUsdValues(activities),
+            nextCursor,
+            hasMore: nextCursor !== undefined,
+        };
+    }
+
+    await syncWalletHistory(publicKey, limit);
+
+    const history = walletCache.getHistory(publicKey);
+    // attachUsdValues mutates its input, so the cached activities are copied first
+    const activities = history.slice(0, limit).map((activity) => ({ ...activity }));
+    const hasMore = activities.length > 0 && (history.length > limit || !walletCache.get(publicKey)?.reachedEnd);
+
+    return {
+        activities: await attachUsdValues(activities),
+        nextCursor: hasMore ? activities[activities.length - 1].signature : undefined,
+        hasMore,
+    };
+}
+
+/**
+ * Brings the stored history up to date: fetches only signatures newer than
+ * the newest stored one once the cache is stale, then extends the history
+ * backwards if fewer than `limit` activities have been synced so far.
+ */
+async function syncWalletHistory(publicKey: string, limit: number): Promise<void> {
+    const entry = walletCache.get(publicKey);
+
+    if (!entry?.newest) {
+        if (entry && !walletCache.isStale(publicKey)) return;
+
+        const { signatures, nextCursor } = await fetchSignatures(publicKey, limit, {});
+        await parseSignatures(publicKey, signatures);
+        walletCache.update(publicKey, {
+            lastUpdated: Date.now(),
+            newest: toMarker(signatures[0]),
+            oldest: toMarker(signatures[signatures.length - 1]),
+            reachedEnd: nextCursor === undefined,
+        });
+        return;
+    }
+
+    if (walletCache.isStale(publicKey)) {
+        const { signatures, nextCursor } = await fetchSignatures(publicKey, HISTORY_CONFIG.maxTransactions, {
+            until: entry.newest.signature,
+        });
+        await parseSignatures(publicKey, signatures);
+
+        walletCache.update(publicKey, {
+            lastUpdated: Date.now(),
+            newest: signatures.length > 0 ? toMarker(signatures[0]) : entry.newest,
+            // Hitting the cap leaves a gap, so the contiguous run restarts at the new batch
+            ...(nextCursor !== undefined && {
+                oldest: toMarker(signatures[signatures.length - 1]),
+                reachedEnd: false,
+            }),
+        });
+        if (signatures.length > 0) {
+            walletEvents.emitNewActivity(publicKey, signatures.length);
         }
+    }
 
-        const signatures = await connection.getSignaturesForAddress(
-            new PublicKey(publicKey),
-            { limit }
-        );
+    const current = walletCache.get(publicKey);
+    const synced = walletCache.getHistory(publicKey).length;
+
+    if (current?.oldest && !current.reachedEnd && synced < limit) {
+        const { signatures, nextCursor } = await fetchSignatures(publicKey, limit - synced, {
+            before: current.oldest.signature,
+        });
+        await parseSignatures(publicKey, signatures);
+
+        walletCache.update(publicKey, {
+            oldest: signatures.length > 0 ? toMarker(signatures[signatures.length - 1]) : current.oldest,
+            reachedEnd: nextCursor === undefined,
+        });
+    }
+}
+
+function toMarker(sig: ConfirmedSignatureInfo | undefined): ActivityMarker | undefined {
+    if (!sig) return undefined;
+    return {
+        signature: sig.signature,
+        timestamp: sig.blockTime ? sig.blockTime * 1000 : Date.now(),
+    };
+}
 
-        const activities: WalletActivity[] = [];
-        const batchSize = 5;
-
-        for (let i = 0; i < signatures.length; i += batchSize) {
-            const batch = signatures.slice(i, i + batchSize);
-            const promises = batch.map((sig) =>
-                connection.getParsedTransaction(sig.signature, {
-                    maxSupportedTransactionVersion: 0,
-                })
-            );
-
-            const transactions = await Promise.all(promises);
-
-            for (let j = 0; j < transactions.length; j++) {
-                const tx = transactions[j];
-                const sig = batch[j];
-
-                if (!tx) continue;
-
-                const timestamp = sig.blockTime ? sig.blockTime * 1000 : Date.now();
-                const type = classifyTransaction(tx);
-                const value = estimateTransactionValue(tx);
-                const success = tx.meta?.err === null;
-
-                let programId = "Unknown";
-                if (tx.transaction.message.instructions.length > 0) {
-                    const firstIx = tx.transaction.message.instructions[0];
-                    if ("programId" in firstIx) {
-                        programId = firstIx.programId.toString();
-                    }
-                }
-
-                activities.push({
-                    timestamp,
-                    signature: sig.signature,
-                    type,
-                    description: `${type} transaction`,
-                    value,
-                    programId,
-                    success,
-                });
+/**
+ * Pages backwards through getSignaturesForAddress until `limit` signatures
+ * inside the requested window are collected, the history is exhausted or
+ * the configured history cap is reached.
+ */
+async function fetchSignatures(
+    publicKey: string,
+    limit: number,
+    options: FetchTransactionsOptions
+): Promise<{ signatures: ConfirmedSignatureInfo[]; nextCursor?: string }> {
+    const address = new PublicKey(publicKey);
+    const cap = Math.min(limit, HISTORY_CONFIG.maxTransactions);
+    const signatures: ConfirmedSignatureInfo[] = [];
+
+    let cursor = options.before;
+    let exhausted = false;
+    // Signatures skipped for being newer than endTime count too, so an old
+    // endTime on a busy wallet stops after one budget and returns a cursor
+    let scanned = 0;
+    const withinBudget = () => signatures.length < cap && scanned < HISTORY_CONFIG.maxTransactions;
+
+    while (withinBudget() && !exhausted) {
+        // Date-bounded requests may skip signatures, so always ask for full pages
+        const pageLimit = options.endTime
+            ? HISTORY_CONFIG.signaturePageSize
+            : Math.min(HISTORY_CONFIG.signaturePageSize, cap - signatures.length);
+
+        const page = await connection.getSignaturesForAddress(address, {
+            before: cursor,
+            until: options.until,
+            limit: pageLimit,
+        });
+
+        for (const sig of page) {
+            if (!withinBudget()) break;
+            const blockTime = sig.blockTime ? sig.blockTime * 1000 : undefined;
+
+            if (options.startTime && blockTime && blockTime < options.startTime) {
+                exhausted = true;
+                break;
             }
 
-            if (i + batchSize < signatures.length) {
-                await delay(200);
+            cursor = sig.signature;
+            scanned++;
+
+            if (options.endTime && blockTime && blockTime > options.endTime) {
+                continue;
             }
+
+            signatures.push(sig);
         }
 
-        walletCache.set(publicKey, {
-            lastUpdated: Date.now(),
-            activities,
-        });
+        // A short page means the history ends here, unless the cap cut it off early
+        const lastSignature = page[page.length - 1]?.signature;
+        if (page.length === 0 || (page.length < pageLimit && cursor === lastSignature)) {
+            exhausted = true;
+        }
+
+        if (!exhausted && withinBudget()) {
+            await delay(200);
+        }
+    }
+
+    return { signatures, nextCursor: exhausted ? undefined : cursor };
+}
 
-        return activities;
-    } catch (error) {
-        console.error("Error fetching wallet transactions:", error);
-        return [];
+/**
+ * Resolves signatures to activities, reusing activities already stored for
+ * the wallet and persisting the ones parsed here.
+ */
+async function parseSignatures(
+    publicKey: string,
+    signatures: ConfirmedSignatureInfo[]
+): Promise<WalletActivity[]> {
+    const parsed = new Map<string, WalletActivity>();
+    const missing = signatures.filter((sig) => !walletCache.getActivity(publicKey, sig.signature));
+    const batchSize = 5;
+
+    for (let i = 0; i < missing.length; i += batchSize) {
+        const batch = missing.slice(i, i + batchSize);
+        const promises = batch.map((sig) =>
+            connection.getParsedTransaction(sig.signature, {
+                maxSupportedTransactionVersion: 0,
+            })
+        );
+
+        const transactions = await Promise.all(promises);
+
+        for (let j = 0; j < transactions.length; j++) {
+            const tx = transactions[j];
+            const sig = batch[j];
+
+            if (!tx) continue;
+
+            const timestamp = sig.blockTime ? sig.blockTime * 1000 : Date.now();
+            const classified = classifyTransaction(tx);
+            const value = estimateTransactionValue(tx, publicKey);
+            const tokenMovements = computeTokenMovements(tx, publicKey);
+            const success = tx.meta?.err === null;
+
+            const programId = getPrimaryProgramId(tx);
+            const protocols = getTouchedProtocols(tx);
+            const swap = classified === "Swap" ? decodeSwap(tx, publicKey) : undefined;
+            const nft = classified === "NFT Trade" ? decodeNftTrade(tx, publicKey) : undefined;
+            const type = nft ? NFT_ACTION_TYPES[nft.action] : classified;
+            // Swap and marketplace transfers go to pool vaults and escrow accounts,
+            // which aren't counterparties worth tracking
+            const counterparties =
+                classified === "Swap" || classified === "NFT Trade"
+                    ? []
+                    : extractCounterpartyTransfers(tx, publicKey);
+
+            parsed.set(sig.signature, {
+                timestamp,
+                signature: sig.signature,
+                type,
+                description: swap
+                    ? `Swapped ${swap.inputSymbol} for ${swap.outputSymbol}`
+                    : nft
+                      ? describeNftTrade(nft)
+                      : `${type} transaction`,
+                value,
+                token: getPrimaryToken(tokenMovements),
+                tokenMovements,
+                swap,
+                nft,
+                counterparties,
+                fee: getWalletFee(tx, publicKey),
+                programId,
+                protocols,
+                success,
+                rewardClaim: isRewardClaim(tx) || undefined,
+            });
+        }
+
+        if (i + batchSize < missing.length) {
+            await delay(200);
+        }
     }
+
+    walletCache.addActivities(publicKey, Array.from(parsed.values()));
+
+    return signatures
+        .map((sig) => walletCache.getActivity(publicKey, sig.signature))
+        .filter((activity): activity is WalletActivity => activity !== undefined)
+        .map((activity) => ({ ...activity }));
 }
 
 export async function generateWalletProfile(
     publicKey: string,
     activities: WalletActivity[]
 ): Promise<WalletProfile> {
+    const profileKey = `${activities.length}:${activities[0]?.signature || ""}`;
     const cachedData = walletCache.get(publicKey);
-    if (cachedData?.profile) {
+    if (cachedData?.profile && cachedData.profileKey === profileKey) {
         return cachedData.profile;
     }
 
@@ -121,12 +325,17 @@ export async function generateWalletProfile(
         .filter((a) => a.value !== undefined)
         .reduce((sum, a) => sum + (a.value || 0), 0);
 
+    const pricedActivities = activities.filter((a) => a.usdValue !== undefined);
+    const transactionVolumeUsd = pricedActivities.length > 0
+        ? pricedActivities.reduce((sum, a) => sum + (a.usdValue || 0), 0)
+        : undefined;
+
     let riskProfile: "conservative" | "moderate" | "aggressive" = "moderate";
     const swapCount = activities.filter((a) => a.type === "Swap").length;
     const tradingCount = activities.filter((a) => a.type === "Trading").length;
     const lendingCount = activities.filter((a) => a.type === "Lending").length;
 
-    if (tradingCount > 5 || activities.some((a) => identifyProtocol(a.programId) === "MANGO_MARKETS")) {
+    if (tradingCount > 5 || activities.some((a) => protocolRegistry.findByProgramId(a.programId)?.category === "perps")) {
         riskProfile = "aggressive";
     } else if (swapCount > 10 || lendingCount > 0) {
         riskProfile = "moderate";
@@ -144,16 +353,13 @@ export async function generateWalletProfile(
         lastActivityDate,
         favoriteProtocols,
         transactionVolume,
+        transactionVolumeUsd,
         riskProfile,
         portfolioDiversification: diversification,
     };
 
-    const existingCache = walletCache.get(publicKey);
-    if (existingCache) {
-        walletCache.set(publicKey, {
-            ...existingCache,
-            profile,
-        });
+    if (walletCache.has(publicKey)) {
+        walletCache.update(publicKey, { profile, profileKey });
     }
 
     return profile;
@@ -0,0 +1,31 @@
+import { EventEmitter } from "events";
+
+type NewActivityListener = (address: string, count: number) => void;
+
+/**
+ * Announces wallets whose history sync found transactions newer than the
+ * cached ones. Shared by every MCP session, so a refresh triggered by one
+ * client reaches subscribers in the others.
+ */
+class WalletEvents {
+    private readonly emitter = new EventEmitter();
+
+    constructor() {
+        // One listener per connected session
+        this.emitter.setMaxListeners(0);
+    }
+
+    /**
+     * @returns A function that removes the listener
+     */
+    public onNewActivity(listener: NewActivityListener): () => void {
+        this.emitter.on("activity", listener);
+        return () => this.emitter.off("activity", listener);
+    }
+
+    public emitNewActivity(address: string, count: number): void {
+        this.emitter.emit("activity", address, count);
+    }
+}
+
+export const walletEvents = new WalletEvents();
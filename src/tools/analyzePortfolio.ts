@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { fetchWalletTransactions, generateWalletProfile } from "../services/wallet";
+import { fetchWalletHoldings } from "../services/holdings";
+import { attachUsdValues, getSolUsdPrice } from "../services/price";
+import { portfolioStore } from "../services/portfolios";
+import { analyzeTransactionPatterns } from "../analyzers/patternAnalyzer";
+import { analyzeDeFiPositions, inferTradingPosition } from "../analyzers/defiAnalyzer";
+import { recommendStrategies } from "../analyzers/recommendStrategy";
+import { calculateWalletPnL, resolveCostBasisMethod } from "../analyzers/pnlAnalyzer";
+import { mergeHoldings, mergePortfolioActivities } from "../analyzers/portfolioAnalyzer";
+import { formatWalletAnalysis } from "../formatters/formatWallet";
+import { formatPortfolioHeader } from "../formatters/formatPortfolio";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { DeFiPosition, TokenHolding, WalletActivity } from "../types/interfaces";
+import {
+    defiPositionSchema,
+    pnlReportSchema,
+    portfolioFlowsSchema,
+    portfolioSchema,
+    strategySchema,
+    tokenHoldingSchema,
+    transactionPatternSchema,
+    walletActivitySchema,
+    walletProfileSchema,
+} from "../types/schemas";
+
+export const analyzePortfolioTool = {
+    name: "analyzePortfolio",
+    description:
+        "Analyzes a saved portfolio of Solana wallets as one: merges their activity, dedupes shared transactions and treats transfers between members as internal moves",
+    parameters: {
+        name: z.string().describe("Name of a portfolio saved with savePortfolio or in the portfolio file"),
+        limit: z.number().optional().default(50).describe("Transactions to fetch per member wallet"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        portfolio: portfolioSchema,
+        profile: walletProfileSchema,
+        flows: portfolioFlowsSchema,
+        patterns: z.array(transactionPatternSchema),
+        positions: z.array(defiPositionSchema),
+        holdings: z.array(tokenHoldingSchema),
+        pnl: pnlReportSchema,
+        recommendations: z.array(strategySchema),
+        recentActivities: z.array(walletActivitySchema),
+    },
+    execute: async ({ name, limit, format }: { name: string; limit: number; format: OutputFormat }) => {
+        try {
+            const portfolio = portfolioStore.get(name);
+            if (!portfolio) {
+                throw new Error(`Portfolio not found: ${name}`);
+            }
+
+            const memberActivities = new Map<string, WalletActivity[]>();
+            const memberHoldings: TokenHolding[][] = [];
+            const positions: DeFiPosition[] = [];
+            for (const address of portfolio.addresses) {
+                memberActivities.set(address, await fetchWalletTransactions(address, limit));
+                const holdings = await fetchWalletHoldings(address);
+                memberHoldings.push(holdings);
+                // Trading statistics are recomputed below from the merged activity
+                const memberPositions = await analyzeDeFiPositions(address, holdings);
+                positions.push(...memberPositions.filter((p) => p.source === "on-chain"));
+            }
+
+            const { activities, flows } = mergePortfolioActivities(memberActivities);
+            const holdings = mergeHoldings(memberHoldings);
+            // Netting changes the value of those transactions, so price them again
+            await attachUsdValues(activities.filter((a) => a.netted));
+
+            const tradingPosition = inferTradingPosition(activities);
+            if (tradingPosition) {
+                const solPrice = await getSolUsdPrice();
+                tradingPosition.usdValue =
+                    solPrice !== undefined ? (tradingPosition.value || 0) * solPrice : undefined;
+                positions.push(tradingPosition);
+            }
+
+            const profile = await generateWalletProfile(`portfolio:${portfolio.name}`, activities);
+            const patterns = analyzeTransactionPatterns(activities);
+            const recommendations = recommendStrategies(activities, profile);
+            const pnl = await calculateWalletPnL(activities, holdings, resolveCostBasisMethod());
+
+            const formattedAnalysis = formatWalletAnalysis(
+                profile,
+                patterns,
+                positions,
+                recommendations,
+                activities.slice(0, 10),
+                holdings,
+                pnl,
+                formatPortfolioHeader(portfolio, profile, flows)
+            );
+
+            return toolResult(
+                formattedAnalysis,
+                {
+                    success: true,
+                    portfolio,
+                    profile,
+                    flows,
+                    patterns,
+                    positions,
+                    holdings,
+                    pnl,
+                    recommendations,
+                    recentActivities: activities.slice(0, 10),
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in analyzePortfolio:", error);
+            return toolError(error);
+        }
+    },
+};
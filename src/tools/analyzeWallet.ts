@@ -1,65 +1,80 @@
 import { z } from "zod";
 import { PublicKey } from "@solana/web3.js";
 import { fetchWalletTransactions, generateWalletProfile } from "../services/wallet";
+import { fetchWalletHoldings } from "../services/holdings";
 import { analyzeTransactionPatterns } from "../analyzers/patternAnalyzer";
 import { analyzeDeFiPositions } from "../analyzers/defiAnalyzer";
 import { recommendStrategies } from "../analyzers/recommendStrategy";
+import { calculateWalletPnL, resolveCostBasisMethod } from "../analyzers/pnlAnalyzer";
 import { formatWalletAnalysis } from "../formatters/formatWallet";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import {
+    defiPositionSchema,
+    pnlReportSchema,
+    strategySchema,
+    tokenHoldingSchema,
+    transactionPatternSchema,
+    walletActivitySchema,
+    walletProfileSchema,
+} from "../types/schemas";
 
 export const analyzeWalletTool = {
     name: "analyzeWallet",
     description: "Analyzes a Solana wallet's DeFi activity and creates a profile with recommendations",
     parameters: {
         address: z.string(),
+        format: formatParameter,
     },
-    execute: async ({ address }: { address: string }) => {
+    outputSchema: {
+        success: z.boolean(),
+        profile: walletProfileSchema,
+        patterns: z.array(transactionPatternSchema),
+        positions: z.array(defiPositionSchema),
+        holdings: z.array(tokenHoldingSchema),
+        pnl: pnlReportSchema,
+        recommendations: z.array(strategySchema),
+        recentActivities: z.array(walletActivitySchema),
+    },
+    execute: async ({ address, format }: { address: string; format: OutputFormat }) => {
         try {
             const pubkey = new PublicKey(address);
             const walletAddress = pubkey.toString();
 
             const activities = await fetchWalletTransactions(walletAddress, 50);
             const profile = await generateWalletProfile(walletAddress, activities);
-            const patterns = analyzeTransactionPatterns(activities);
-            const positions = await analyzeDeFiPositions(walletAddress);
+            const patterns = analyzeTransactionPatterns(activities, walletAddress);
+            const holdings = await fetchWalletHoldings(walletAddress);
+            const positions = await analyzeDeFiPositions(walletAddress, holdings);
             const recommendations = recommendStrategies(activities, profile);
+            const pnl = await calculateWalletPnL(activities, holdings, resolveCostBasisMethod());
 
             const formattedAnalysis = formatWalletAnalysis(
                 profile,
                 patterns,
                 positions,
                 recommendations,
-                activities.slice(0, 10)
+                activities.slice(0, 10),
+                holdings,
+                pnl
             );
 
-            return {
-                content: [
-                    { type: "text", text: formattedAnalysis },
-                    {
-                        type: "text",
-                        text: JSON.stringify({
-                            success: true,
-                            profile,
-                            patterns,
-                            positions,
-                            recommendations,
-                            recentActivities: activities.slice(0, 10),
-                        }),
-                    },
-                ],
-            };
+            return toolResult(
+                formattedAnalysis,
+                {
+                    success: true,
+                    profile,
+                    patterns,
+                    positions,
+                    holdings,
+                    pnl,
+                    recommendations,
+                    recentActivities: activities.slice(0, 10),
+                },
+                format
+            );
         } catch (error) {
             console.error("Error in analyzeWallet:", error);
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: JSON.stringify({
-                            success: false,
-                            error: error instanceof Error ? error.message : "Unknown error",
-                        }),
-                    },
-                ],
-            };
+            return toolError(error);
         }
     },
 }; 
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchWalletTransactions, generateWalletProfile } from "../services/wallet";
+import { analyzeTransactionPatterns } from "../analyzers/patternAnalyzer";
+import { recommendStrategies } from "../analyzers/recommendStrategy";
+import { compareWallets } from "../analyzers/comparisonAnalyzer";
+import { formatWalletComparison } from "../formatters/formatComparison";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { ComparedWallet } from "../types/interfaces";
+import { sharedItemSchema, walletComparisonEntrySchema } from "../types/schemas";
+
+export const compareWalletsTool = {
+    name: "compareWallets",
+    description:
+        "Compares two or more Solana wallets side by side: activity, volume, protocol mix, risk, patterns, and the protocols and counterparties they share",
+    parameters: {
+        addresses: z.array(z.string()).min(2).max(5).describe("Wallet addresses to compare"),
+        limit: z.number().optional().default(50).describe("Transactions to fetch per wallet"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        wallets: z.array(walletComparisonEntrySchema),
+        sharedProtocols: z.array(sharedItemSchema),
+        sharedCounterparties: z.array(sharedItemSchema),
+        uniqueProtocols: z.record(z.array(z.string())),
+        uniqueCounterparties: z.record(z.array(z.string())),
+    },
+    execute: async ({ addresses, limit, format }: { addresses: string[]; limit: number; format: OutputFormat }) => {
+        try {
+            const walletAddresses = Array.from(new Set(addresses.map((address) => new PublicKey(address).toString())));
+            if (walletAddresses.length < 2) {
+                throw new Error("Provide at least two different wallet addresses");
+            }
+
+            const wallets: ComparedWallet[] = [];
+            for (const walletAddress of walletAddresses) {
+                const activities = await fetchWalletTransactions(walletAddress, limit);
+                const profile = await generateWalletProfile(walletAddress, activities);
+                wallets.push({
+                    profile,
+                    patterns: analyzeTransactionPatterns(activities, walletAddress),
+                    recommendations: recommendStrategies(activities, profile),
+                    activities,
+                });
+            }
+
+            const comparison = compareWallets(wallets);
+
+            return toolResult(
+                formatWalletComparison(comparison),
+                {
+                    success: true,
+                    ...comparison,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in compareWallets:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { addressLabels } from "../services/labels";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { addressLabelSchema } from "../types/schemas";
+
+export const deleteAddressLabelTool = {
+    name: "deleteAddressLabel",
+    description:
+        "Removes an address from the address book, or only the given tags when tags are passed. Bundled labels can't be removed but can be overridden with saveAddressLabel",
+    parameters: {
+        address: z.string(),
+        tags: z.array(z.string()).optional().describe("Remove only these tags and keep the label"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        address: z.string(),
+        label: addressLabelSchema.optional(),
+    },
+    execute: async ({ address, tags, format }: { address: string; tags?: string[]; format: OutputFormat }) => {
+        try {
+            if (tags?.length) {
+                const entry = addressLabels.removeTags(address, tags);
+                return toolResult(
+                    entry
+                        ? `Removed tags ${tags.join(", ")} from **${entry.label}**.`
+                        : `\`${address}\` is not in the address book.`,
+                    {
+                        success: entry !== undefined,
+                        address,
+                        label: entry,
+                    },
+                    format
+                );
+            }
+
+            const removed = addressLabels.remove(address);
+
+            return toolResult(
+                removed
+                    ? `Removed \`${address}\` from the address book.`
+                    : `\`${address}\` is not in the address book.`,
+                {
+                    success: removed,
+                    address,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in deleteAddressLabel:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { portfolioStore } from "../services/portfolios";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+
+export const deletePortfolioTool = {
+    name: "deletePortfolio",
+    description: "Deletes a saved portfolio by name. Member wallets and their cached history are kept",
+    parameters: {
+        name: z.string(),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        name: z.string(),
+    },
+    execute: async ({ name, format }: { name: string; format: OutputFormat }) => {
+        try {
+            const removed = portfolioStore.remove(name);
+
+            return toolResult(
+                removed ? `Deleted portfolio **${name}**.` : `No portfolio named **${name}** was found.`,
+                {
+                    success: removed,
+                    name,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in deletePortfolio:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchWalletTransactions } from "../services/wallet";
+import { buildTaxEvents } from "../analyzers/taxEventAnalyzer";
+import { writeTaxEventsCsv, TAX_EXPORT_LAYOUTS } from "../services/taxExport";
+import { formatTaxExport } from "../formatters/formatTaxExport";
+import { parseDateParam } from "../utils/date";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { TaxExportLayout } from "../types/interfaces";
+import { taxExportLayoutSchema } from "../types/schemas";
+
+export const exportTaxEventsTool = {
+    name: "exportTaxEvents",
+    description:
+        "Exports a Solana wallet's trades, income, fees and transfers as a CSV file for crypto tax tools (generic, Koinly or CoinTracker layout)",
+    parameters: {
+        address: z.string(),
+        layout: z
+            .enum(TAX_EXPORT_LAYOUTS as [TaxExportLayout, ...TaxExportLayout[]])
+            .optional()
+            .default("generic")
+            .describe("CSV column layout"),
+        limit: z.number().optional().default(1000).describe("Maximum number of transactions to export"),
+        startDate: z.string().optional().describe("ISO date or unix timestamp; oldest transaction to include"),
+        endDate: z.string().optional().describe("ISO date or unix timestamp; newest transaction to include"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        filePath: z.string(),
+        layout: taxExportLayoutSchema,
+        count: z.number(),
+    },
+    execute: async ({
+        address,
+        layout,
+        limit,
+        startDate,
+        endDate,
+        format,
+    }: {
+        address: string;
+        layout: TaxExportLayout;
+        limit: number;
+        startDate?: string;
+        endDate?: string;
+        format: OutputFormat;
+    }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+
+            const activities = await fetchWalletTransactions(walletAddress, limit, {
+                startTime: parseDateParam(startDate, "startDate"),
+                endTime: parseDateParam(endDate, "endDate"),
+            });
+            const events = await buildTaxEvents(activities);
+            const result = writeTaxEventsCsv(walletAddress, events, layout);
+            const formattedExport = formatTaxExport(result, walletAddress);
+
+            return toolResult(
+                formattedExport,
+                {
+                    success: true,
+                    filePath: result.filePath,
+                    layout,
+                    count: events.length,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in exportTaxEvents:", error);
+            return toolError(error);
+        }
+    },
+};
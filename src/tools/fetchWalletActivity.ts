@@ -1,41 +1,77 @@
 import { z } from "zod";
 import { PublicKey } from "@solana/web3.js";
-import { fetchWalletTransactions } from "../services/wallet";
+import { fetchWalletActivityPage } from "../services/wallet";
+import { detectScamActivity } from "../analyzers/scamAnalyzer";
 import { formatActivityHistory } from "../formatters/formatActivity";
+import { parseDateParam } from "../utils/date";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { scamFindingSchema, walletActivitySchema } from "../types/schemas";
 
 export const fetchWalletActivityTool = {
     name: "fetchWalletActivity",
-    description: "Fetches the transaction activity history for a Solana wallet address",
+    description:
+        "Fetches the transaction activity history for a Solana wallet address. Pass the returned nextCursor as `before` to fetch the next page",
     parameters: {
         address: z.string(),
         limit: z.number().optional().default(20),
+        before: z.string().optional().describe("Only return transactions older than this signature"),
+        until: z.string().optional().describe("Stop paging once this signature is reached"),
+        startDate: z.string().optional().describe("ISO date or unix timestamp; oldest transaction to include"),
+        endDate: z.string().optional().describe("ISO date or unix timestamp; newest transaction to include"),
+        format: formatParameter,
     },
-    execute: async ({ address, limit }: { address: string; limit: number }) => {
+    outputSchema: {
+        success: z.boolean(),
+        count: z.number(),
+        activities: z.array(walletActivitySchema),
+        nextCursor: z.string().optional(),
+        hasMore: z.boolean(),
+        scamFindings: z.array(scamFindingSchema),
+    },
+    execute: async ({
+        address,
+        limit,
+        before,
+        until,
+        startDate,
+        endDate,
+        format,
+    }: {
+        address: string;
+        limit: number;
+        before?: string;
+        until?: string;
+        startDate?: string;
+        endDate?: string;
+        format: OutputFormat;
+    }) => {
         try {
             const pubkey = new PublicKey(address);
             const walletAddress = pubkey.toString();
-            const activities = await fetchWalletTransactions(walletAddress, limit);
-            const formattedHistory = formatActivityHistory(activities, walletAddress);
+            const page = await fetchWalletActivityPage(walletAddress, limit, {
+                before,
+                until,
+                startTime: parseDateParam(startDate, "startDate"),
+                endTime: parseDateParam(endDate, "endDate"),
+            });
+            const scamFindings = detectScamActivity(page.activities, walletAddress);
+            const formattedHistory = formatActivityHistory(page.activities, walletAddress, page, scamFindings);
 
-            return {
-                content: [
-                    { type: "text", text: formattedHistory },
-                ],
-            };
+            return toolResult(
+                formattedHistory,
+                {
+                    success: true,
+                    count: page.activities.length,
+                    activities: page.activities,
+                    nextCursor: page.nextCursor,
+                    hasMore: page.hasMore,
+                    scamFindings,
+                },
+                format
+            );
         } catch (error) {
             console.error("Error in fetchWalletActivity:", error);
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: JSON.stringify({
-                            success: false,
-                            error: error instanceof Error ? error.message : "Unknown error",
-                            activities: [],
-                        }),
-                    },
-                ],
-            };
+            return toolError(error);
         }
     },
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchWalletActivityPage } from "../services/wallet";
+import { summarizeCounterparties } from "../analyzers/counterpartyAnalyzer";
+import { formatCounterparties } from "../formatters/formatCounterparties";
+import { parseDateParam } from "../utils/date";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { counterpartySummarySchema } from "../types/schemas";
+
+export const getCounterpartiesTool = {
+    name: "getCounterparties",
+    description:
+        "Ranks the addresses a Solana wallet most often sends SOL or tokens to and receives them from, with amounts, first/last seen times and known program or exchange labels",
+    parameters: {
+        address: z.string(),
+        limit: z.number().optional().default(200).describe("Number of transactions to scan"),
+        top: z.number().optional().default(25).describe("Number of counterparties to list"),
+        direction: z
+            .enum(["all", "sent", "received"])
+            .optional()
+            .default("all")
+            .describe("Only rank counterparties the wallet sent to or received from"),
+        startDate: z.string().optional().describe("ISO date or unix timestamp; oldest transaction to include"),
+        endDate: z.string().optional().describe("ISO date or unix timestamp; newest transaction to include"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        total: z.number(),
+        counterparties: z.array(counterpartySummarySchema),
+        hasMore: z.boolean(),
+    },
+    execute: async ({
+        address,
+        limit,
+        top,
+        direction,
+        startDate,
+        endDate,
+        format,
+    }: {
+        address: string;
+        limit: number;
+        top: number;
+        direction: "all" | "sent" | "received";
+        startDate?: string;
+        endDate?: string;
+        format: OutputFormat;
+    }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+            const page = await fetchWalletActivityPage(walletAddress, limit, {
+                startTime: parseDateParam(startDate, "startDate"),
+                endTime: parseDateParam(endDate, "endDate"),
+            });
+
+            const counterparties = summarizeCounterparties(page.activities).filter(
+                (c) =>
+                    direction === "all" ||
+                    (direction === "sent" ? c.sentCount > 0 : c.receivedCount > 0)
+            );
+            const listed = counterparties.slice(0, top);
+            const formattedCounterparties = formatCounterparties(walletAddress, listed, counterparties.length);
+
+            return toolResult(
+                formattedCounterparties,
+                {
+                    success: true,
+                    total: counterparties.length,
+                    counterparties: listed,
+                    hasMore: page.hasMore,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in getCounterparties:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchWalletActivityPage } from "../services/wallet";
+import { fetchWalletHoldings } from "../services/holdings";
+import { reconstructPortfolioHistory } from "../analyzers/historyAnalyzer";
+import { formatPortfolioHistory } from "../formatters/formatPortfolioHistory";
+import { parseDateParam } from "../utils/date";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { HISTORY_CONFIG, TIME_PERIODS } from "../config/constants";
+import { HistoryInterval } from "../types/interfaces";
+import { portfolioSnapshotSchema } from "../types/schemas";
+
+export const getPortfolioHistoryTool = {
+    name: "getPortfolioHistory",
+    description:
+        "Reconstructs a Solana wallet's per-token balances over time in daily or hourly buckets, with total USD value where prices are available",
+    parameters: {
+        address: z.string(),
+        interval: z.enum(["daily", "hourly"]).optional().default("daily"),
+        startDate: z
+            .string()
+            .optional()
+            .describe("ISO date or unix timestamp; defaults to 30 days ago (daily) or 24 hours ago (hourly)"),
+        endDate: z.string().optional().describe("ISO date or unix timestamp; defaults to now"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        address: z.string(),
+        interval: z.enum(["daily", "hourly"]),
+        start: z.number(),
+        end: z.number(),
+        tokens: z.array(z.object({ mint: z.string(), symbol: z.string() })),
+        snapshots: z.array(portfolioSnapshotSchema),
+        complete: z.boolean(),
+        warnings: z.array(z.string()),
+    },
+    execute: async ({
+        address,
+        interval,
+        startDate,
+        endDate,
+        format,
+    }: {
+        address: string;
+        interval: HistoryInterval;
+        startDate?: string;
+        endDate?: string;
+        format: OutputFormat;
+    }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+
+            const end = parseDateParam(endDate, "endDate") ?? Date.now();
+            const start =
+                parseDateParam(startDate, "startDate") ??
+                end - (interval === "daily" ? 30 * TIME_PERIODS.ONE_DAY : TIME_PERIODS.ONE_DAY);
+            if (start >= end) {
+                throw new Error("startDate must be before endDate");
+            }
+
+            // Balances are walked back from today, so every activity since the start is needed
+            const page = await fetchWalletActivityPage(walletAddress, HISTORY_CONFIG.maxTransactions, {
+                startTime: start,
+            });
+            const holdings = await fetchWalletHoldings(walletAddress);
+            const history = await reconstructPortfolioHistory(walletAddress, page.activities, holdings, {
+                interval,
+                start,
+                end,
+                complete: !page.hasMore,
+            });
+            const formattedHistory = formatPortfolioHistory(history);
+
+            return toolResult(
+                formattedHistory,
+                {
+                    success: true,
+                    ...history,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in getPortfolioHistory:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchStakeAccounts } from "../services/stake";
+import { formatStakeAccounts } from "../formatters/formatStake";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { stakeAccountSchema } from "../types/schemas";
+
+export const getStakeAccountsTool = {
+    name: "getStakeAccounts",
+    description:
+        "Finds the native stake accounts a Solana wallet controls as staker or withdrawer, with validator, activation state, lockup and per-epoch inflation rewards",
+    parameters: {
+        address: z.string(),
+        rewardEpochs: z
+            .number()
+            .int()
+            .min(0)
+            .max(20)
+            .optional()
+            .default(5)
+            .describe("Number of completed epochs to read inflation rewards for"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        address: z.string(),
+        currentEpoch: z.number(),
+        accounts: z.array(stakeAccountSchema),
+        warnings: z.array(z.string()),
+    },
+    execute: async ({
+        address,
+        rewardEpochs,
+        format,
+    }: {
+        address: string;
+        rewardEpochs: number;
+        format: OutputFormat;
+    }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+
+            const overview = await fetchStakeAccounts(walletAddress, { rewardEpochs, includeValidators: true });
+            const formattedStake = formatStakeAccounts(overview, rewardEpochs);
+
+            return toolResult(
+                formattedStake,
+                {
+                    success: true,
+                    ...overview,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in getStakeAccounts:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchWalletActivityPage } from "../services/wallet";
+import { summarizeSwapPairs } from "../analyzers/swapAnalyzer";
+import { formatSwapHistory } from "../formatters/formatSwaps";
+import { parseDateParam } from "../utils/date";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { swapDetailsSchema, swapPairSummarySchema } from "../types/schemas";
+
+export const getSwapHistoryTool = {
+    name: "getSwapHistory",
+    description:
+        "Lists the token swaps a Solana wallet made through Jupiter, Raydium, Orca, FluxBeam and other DEXs, with amounts, effective prices (after platform and LP fees), routes, network fees and a per-pair summary",
+    parameters: {
+        address: z.string(),
+        limit: z.number().optional().default(100).describe("Number of transactions to scan for swaps"),
+        before: z.string().optional().describe("Only scan transactions older than this signature"),
+        startDate: z.string().optional().describe("ISO date or unix timestamp; oldest swap to include"),
+        endDate: z.string().optional().describe("ISO date or unix timestamp; newest swap to include"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        count: z.number(),
+        swaps: z.array(swapDetailsSchema.extend({ signature: z.string(), timestamp: z.number() })),
+        pairs: z.array(swapPairSummarySchema),
+        nextCursor: z.string().optional(),
+        hasMore: z.boolean(),
+    },
+    execute: async ({
+        address,
+        limit,
+        before,
+        startDate,
+        endDate,
+        format,
+    }: {
+        address: string;
+        limit: number;
+        before?: string;
+        startDate?: string;
+        endDate?: string;
+        format: OutputFormat;
+    }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+            const page = await fetchWalletActivityPage(walletAddress, limit, {
+                before,
+                startTime: parseDateParam(startDate, "startDate"),
+                endTime: parseDateParam(endDate, "endDate"),
+            });
+            const swaps = page.activities.filter((activity) => activity.swap);
+            const pairs = summarizeSwapPairs(swaps);
+            const formattedSwaps = formatSwapHistory(swaps, pairs, walletAddress, page);
+
+            return toolResult(
+                formattedSwaps,
+                {
+                    success: true,
+                    count: swaps.length,
+                    swaps: swaps.map((activity) => ({
+                        signature: activity.signature,
+                        timestamp: activity.timestamp,
+                        ...activity.swap,
+                    })),
+                    pairs,
+                    nextCursor: page.nextCursor,
+                    hasMore: page.hasMore,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in getSwapHistory:", error);
+            return toolError(error);
+        }
+    },
+};
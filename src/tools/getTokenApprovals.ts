@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchTokenApprovals } from "../services/approvals";
+import { formatTokenApprovals } from "../formatters/formatApprovals";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { tokenApprovalSchema } from "../types/schemas";
+
+export const getTokenApprovalsTool = {
+    name: "getTokenApprovals",
+    description:
+        "Audits a Solana wallet's token accounts for live delegate approvals, close authorities and reassigned owners, ranked by risk and linked to the transactions that granted them",
+    parameters: {
+        address: z.string(),
+        limit: z
+            .number()
+            .optional()
+            .default(200)
+            .describe("Number of wallet transactions to scan for mints whose token accounts may have been reassigned"),
+        searchDepth: z
+            .number()
+            .int()
+            .min(1)
+            .max(200)
+            .optional()
+            .default(50)
+            .describe("Number of transactions per token account to search for the granting transaction"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        address: z.string(),
+        tokenAccountsScanned: z.number(),
+        approvals: z.array(tokenApprovalSchema),
+        warnings: z.array(z.string()),
+    },
+    execute: async ({
+        address,
+        limit,
+        searchDepth,
+        format,
+    }: {
+        address: string;
+        limit: number;
+        searchDepth: number;
+        format: OutputFormat;
+    }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+
+            const audit = await fetchTokenApprovals(walletAddress, { limit, searchDepth });
+            const formattedApprovals = formatTokenApprovals(audit, searchDepth);
+
+            return toolResult(
+                formattedApprovals,
+                {
+                    success: true,
+                    ...audit,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in getTokenApprovals:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchWalletHoldings } from "../services/holdings";
+import { formatHoldingsReport } from "../formatters/formatHoldings";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { tokenHoldingSchema } from "../types/schemas";
+
+export const getWalletHoldingsTool = {
+    name: "getWalletHoldings",
+    description: "Lists the native SOL balance and all SPL and Token-2022 token accounts held by a Solana wallet",
+    parameters: {
+        address: z.string(),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        holdings: z.array(tokenHoldingSchema),
+    },
+    execute: async ({ address, format }: { address: string; format: OutputFormat }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+            const holdings = await fetchWalletHoldings(walletAddress);
+            const formattedHoldings = formatHoldingsReport(holdings, walletAddress);
+
+            return toolResult(
+                formattedHoldings,
+                {
+                    success: true,
+                    holdings,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in getWalletHoldings:", error);
+            return toolError(error);
+        }
+    },
+};
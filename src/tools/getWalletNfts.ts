@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchWalletTransactions } from "../services/wallet";
+import { fetchWalletNfts } from "../services/nfts";
+import { formatWalletNfts } from "../formatters/formatNfts";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { nftHoldingSchema, nftTradeSchema } from "../types/schemas";
+
+export const getWalletNftsTool = {
+    name: "getWalletNfts",
+    description:
+        "Lists the NFTs a Solana wallet holds with their Metaplex name, symbol, collection and URI, plus its recent buys, sales, listings and delistings on Magic Eden, Tensor and other marketplaces",
+    parameters: {
+        address: z.string(),
+        limit: z.number().optional().default(100).describe("Number of transactions to scan for marketplace trades"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        nfts: z.array(nftHoldingSchema),
+        trades: z.array(nftTradeSchema.extend({ signature: z.string(), timestamp: z.number() })),
+    },
+    execute: async ({ address, limit, format }: { address: string; limit: number; format: OutputFormat }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+
+            const nfts = await fetchWalletNfts(walletAddress);
+            const activities = await fetchWalletTransactions(walletAddress, limit);
+            const trades = activities.filter((activity) => activity.nft);
+            const formattedNfts = formatWalletNfts(walletAddress, nfts, trades);
+
+            return toolResult(
+                formattedNfts,
+                {
+                    success: true,
+                    nfts,
+                    trades: trades.map((activity) => ({
+                        signature: activity.signature,
+                        timestamp: activity.timestamp,
+                        ...activity.nft,
+                    })),
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in getWalletNfts:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { fetchWalletTransactions } from "../services/wallet";
+import { fetchWalletHoldings } from "../services/holdings";
+import {
+    calculateWalletPnL,
+    resolveCostBasisMethod,
+    COST_BASIS_METHODS,
+} from "../analyzers/pnlAnalyzer";
+import { formatPnLReport } from "../formatters/formatPnL";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { CostBasisMethod } from "../types/interfaces";
+import { pnlReportSchema } from "../types/schemas";
+
+export const getWalletPnLTool = {
+    name: "getWalletPnL",
+    description:
+        "Computes cost basis and realized/unrealized profit and loss per token for a Solana wallet from its swaps and incoming transfers",
+    parameters: {
+        address: z.string(),
+        method: z
+            .enum(COST_BASIS_METHODS as [CostBasisMethod, ...CostBasisMethod[]])
+            .optional()
+            .describe("Lot matching method; defaults to COST_BASIS_METHOD or fifo"),
+        limit: z.number().optional().default(500).describe("Number of recent transactions to build lots from"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        ...pnlReportSchema.shape,
+    },
+    execute: async ({
+        address,
+        method,
+        limit,
+        format,
+    }: {
+        address: string;
+        method?: CostBasisMethod;
+        limit: number;
+        format: OutputFormat;
+    }) => {
+        try {
+            const pubkey = new PublicKey(address);
+            const walletAddress = pubkey.toString();
+
+            const activities = await fetchWalletTransactions(walletAddress, limit);
+            const holdings = await fetchWalletHoldings(walletAddress);
+            const report = await calculateWalletPnL(activities, holdings, resolveCostBasisMethod(method));
+            const formattedReport = formatPnLReport(report, walletAddress);
+
+            return toolResult(
+                formattedReport,
+                {
+                    success: true,
+                    ...report,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in getWalletPnL:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { addressLabels } from "../services/labels";
+import { formatAddressBook } from "../formatters/formatLabels";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { addressLabelSchema } from "../types/schemas";
+
+export const listAddressLabelsTool = {
+    name: "listAddressLabels",
+    description: "Lists the address book, optionally filtered by tag or category, and the bundled exchange and protocol labels",
+    parameters: {
+        tag: z.string().optional(),
+        category: z.string().optional(),
+        includeBuiltIn: z.boolean().optional().default(false).describe("Also list the bundled labels"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        labels: z.array(addressLabelSchema),
+        builtIn: z.array(addressLabelSchema),
+    },
+    execute: async ({
+        tag,
+        category,
+        includeBuiltIn,
+        format,
+    }: {
+        tag?: string;
+        category?: string;
+        includeBuiltIn: boolean;
+        format: OutputFormat;
+    }) => {
+        try {
+            const labels = addressLabels.list({ tag, category });
+            const builtIn = includeBuiltIn
+                ? addressLabels
+                      .listBuiltIn()
+                      .filter((entry) => !category || entry.category?.toLowerCase() === category.toLowerCase())
+                : [];
+
+            return toolResult(
+                formatAddressBook(labels, tag ? [] : builtIn),
+                {
+                    success: true,
+                    labels,
+                    builtIn: tag ? [] : builtIn,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in listAddressLabels:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { portfolioStore } from "../services/portfolios";
+import { formatPortfolioList } from "../formatters/formatPortfolio";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { portfolioSchema } from "../types/schemas";
+
+export const listPortfoliosTool = {
+    name: "listPortfolios",
+    description: "Lists saved portfolios and their member wallet addresses",
+    parameters: {
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        portfolios: z.array(portfolioSchema),
+    },
+    execute: async ({ format }: { format: OutputFormat }) => {
+        try {
+            const portfolios = portfolioStore.list();
+
+            return toolResult(
+                formatPortfolioList(portfolios),
+                {
+                    success: true,
+                    portfolios,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in listPortfolios:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { protocolRegistry, PROTOCOL_CATEGORIES } from "../services/protocolRegistry";
+import { formatProtocolList } from "../formatters/formatProtocols";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { ProtocolCategory } from "../types/interfaces";
+import { protocolDefinitionSchema } from "../types/schemas";
+
+export const listProtocolsTool = {
+    name: "listProtocols",
+    description: "Lists the Solana protocols the tracker recognises, with their categories and program IDs",
+    parameters: {
+        category: z
+            .enum(PROTOCOL_CATEGORIES as [ProtocolCategory, ...ProtocolCategory[]])
+            .optional()
+            .describe("Only list protocols in this category"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        count: z.number(),
+        protocols: z.array(protocolDefinitionSchema),
+    },
+    execute: async ({ category, format }: { category?: ProtocolCategory; format: OutputFormat }) => {
+        try {
+            const protocols = protocolRegistry.list(category);
+            const formattedProtocols = formatProtocolList(protocols, category);
+
+            return toolResult(
+                formattedProtocols,
+                {
+                    success: true,
+                    count: protocols.length,
+                    protocols,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in listProtocols:", error);
+            return toolError(error);
+        }
+    },
+};
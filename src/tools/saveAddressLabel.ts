@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { addressLabels } from "../services/labels";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { addressLabelSchema } from "../types/schemas";
+
+export const saveAddressLabelTool = {
+    name: "saveAddressLabel",
+    description:
+        "Adds an address to the address book or updates its label, category or tags. Labels are shown wherever reports mention the address",
+    parameters: {
+        address: z.string(),
+        label: z.string().optional().describe("Display name; required for addresses not yet in the address book"),
+        category: z.string().optional().describe('e.g. "exchange", "friend" or "cold-storage"'),
+        tags: z.array(z.string()).optional().describe("Tags to add to the entry"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        label: addressLabelSchema,
+    },
+    execute: async ({
+        address,
+        label,
+        category,
+        tags,
+        format,
+    }: {
+        address: string;
+        label?: string;
+        category?: string;
+        tags?: string[];
+        format: OutputFormat;
+    }) => {
+        try {
+            const entry = addressLabels.save({ address, label, category, tags });
+
+            return toolResult(
+                `Saved **${entry.label}** for \`${entry.address}\`${
+                    entry.tags ? ` with tags ${entry.tags.join(", ")}` : ""
+                }.`,
+                {
+                    success: true,
+                    label: entry,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in saveAddressLabel:", error);
+            return toolError(error);
+        }
+    },
+};
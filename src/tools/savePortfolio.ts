@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { portfolioStore } from "../services/portfolios";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { portfolioSchema } from "../types/schemas";
+
+export const savePortfolioTool = {
+    name: "savePortfolio",
+    description:
+        "Creates or replaces a named portfolio: a group of Solana wallet addresses analyzed together with analyzePortfolio",
+    parameters: {
+        name: z.string().describe("Portfolio name; saving an existing name replaces it"),
+        addresses: z.array(z.string()).min(1).describe("Member wallet addresses"),
+        description: z.string().optional(),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        portfolio: portfolioSchema,
+    },
+    execute: async ({
+        name,
+        addresses,
+        description,
+        format,
+    }: {
+        name: string;
+        addresses: string[];
+        description?: string;
+        format: OutputFormat;
+    }) => {
+        try {
+            const portfolio = portfolioStore.save({ name, addresses, description });
+
+            return toolResult(
+                `Saved portfolio **${portfolio.name}** with ${portfolio.addresses.length} wallet(s).`,
+                {
+                    success: true,
+                    portfolio,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in savePortfolio:", error);
+            return toolError(error);
+        }
+    },
+};
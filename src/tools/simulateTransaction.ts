@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { simulateSerializedTransaction } from "../services/simulation";
+import { getSolUsdPrice } from "../services/price";
+import { formatSimulation } from "../formatters/formatSimulation";
+import { formatParameter, OutputFormat, toolError, toolResult } from "../utils/toolResult";
+import { simulationResultSchema } from "../types/schemas";
+
+export const simulateTransactionTool = {
+    name: "simulateTransaction",
+    description:
+        "Simulates an unsigned base64-serialized Solana transaction (legacy or v0) before signing, reporting balance changes, invoked programs, logs and risk warnings such as authority changes, unlimited approvals and unknown programs",
+    parameters: {
+        transaction: z.string().min(1).describe("Base64-serialized legacy or v0 transaction"),
+        format: formatParameter,
+    },
+    outputSchema: {
+        success: z.boolean(),
+        simulation: simulationResultSchema,
+    },
+    execute: async ({ transaction, format }: { transaction: string; format: OutputFormat }) => {
+        try {
+            const simulation = await simulateSerializedTransaction(transaction);
+
+            if (simulation.fee !== undefined) {
+                const solPrice = await getSolUsdPrice();
+                simulation.feeUsd = solPrice !== undefined ? simulation.fee * solPrice : undefined;
+            }
+
+            const formattedSimulation = formatSimulation(simulation);
+
+            return toolResult(
+                formattedSimulation,
+                {
+                    success: true,
+                    simulation,
+                },
+                format
+            );
+        } catch (error) {
+            console.error("Error in simulateTransaction:", error);
+            return toolError(error);
+        }
+    },
+};
@@ -1,12 +1,147 @@
+export interface TokenMovement {
+    mint: string;
+    symbol: string;
+    amount: number;
+    direction: "in" | "out";
+    // Mint decimals; zero-decimal single units are usually NFTs
+    decimals?: number;
+}
+
 export interface WalletActivity {
     timestamp: number;
     signature: string;
     type: string;
     description: string;
     value?: number;
+    usdValue?: number;
     token?: string;
+    tokenMovements?: TokenMovement[];
+    swap?: SwapDetails;
+    nft?: NftTrade;
+    // Direct SOL and token transfers between the wallet and other addresses
+    counterparties?: CounterpartyTransfer[];
+    fee?: number;
     programId: string;
+    protocols?: string[];
     success: boolean;
+    // Set when a program logged a reward claim or harvest instruction
+    rewardClaim?: boolean;
+    // Portfolio members involved, set on activities merged across wallets
+    wallets?: string[];
+    // Set on portfolio activities whose movements were netted between members
+    netted?: boolean;
+}
+
+export interface CounterpartyTransfer {
+    // Wallet on the other side; the owner when a token account was used
+    address: string;
+    mint: string;
+    symbol: string;
+    amount: number;
+    direction: "in" | "out";
+}
+
+export interface AddressLabel {
+    address: string;
+    label: string;
+    // e.g. "exchange"
+    category?: string;
+    // Free-form, lowercase tags such as "cold-storage" or "friend"
+    tags?: string[];
+}
+
+export interface CounterpartyAmount {
+    mint: string;
+    symbol: string;
+    sent: number;
+    received: number;
+}
+
+export interface CounterpartySummary {
+    address: string;
+    label?: string;
+    labelSource: "label-file" | "program" | "built-in" | "unknown";
+    category?: string;
+    transactionCount: number;
+    sentCount: number;
+    receivedCount: number;
+    amounts: CounterpartyAmount[];
+    firstSeen: number;
+    lastSeen: number;
+}
+
+export interface SwapDetails {
+    inputMint: string;
+    inputSymbol: string;
+    inputAmount: number;
+    outputMint: string;
+    outputSymbol: string;
+    outputAmount: number;
+    // Output tokens received per input token
+    price: number;
+    // Protocol id the wallet called, e.g. an aggregator
+    venue: string;
+    // Protocol ids of the pools the trade was routed through, in execution order
+    route: string[];
+    // Network fee paid by the wallet, in SOL. Platform and LP fees taken inside
+    // the swap are already reflected in the input and output amounts
+    networkFee: number;
+    usdValue?: number;
+}
+
+export type NftAction = "buy" | "sell" | "list" | "delist";
+
+export interface NftTrade {
+    action: NftAction;
+    mint: string;
+    // Protocol id of the marketplace
+    marketplace: string;
+    // SOL paid for a buy or received for a sale
+    price?: number;
+    usdValue?: number;
+}
+
+export interface NftMetadata {
+    name: string;
+    symbol: string;
+    uri: string;
+    updateAuthority: string;
+    sellerFeeBasisPoints: number;
+    collection?: { address: string; verified: boolean };
+}
+
+export interface NftHolding {
+    mint: string;
+    tokenAccount?: string;
+    tokenProgram?: string;
+    metadata?: NftMetadata;
+}
+
+export interface SwapPairSummary {
+    pair: string;
+    inputSymbol: string;
+    outputSymbol: string;
+    count: number;
+    totalInput: number;
+    totalOutput: number;
+    averagePrice: number;
+    totalUsdValue?: number;
+    venues: string[];
+    firstSwap: number;
+    lastSwap: number;
+}
+
+export interface FetchTransactionsOptions {
+    before?: string;
+    until?: string;
+    startTime?: number;
+    endTime?: number;
+}
+
+export interface ActivityPage {
+    activities: WalletActivity[];
+    nextCursor?: string;
+    hasMore: boolean;
 }
 
 export interface TokenHolding {
@@ -15,18 +150,72 @@ export interface TokenHolding {
     amount: number;
     decimals: number;
     usdValue?: number;
+    tokenAccount?: string;
+    tokenProgram?: string;
+    isNative?: boolean;
+    reclaimableRent?: number;
 }
 
 export interface DeFiPosition {
     protocol: string;
     type: string;
+    source: "on-chain" | "inferred";
+    account?: string;
     tokenA?: string;
     tokenB?: string;
+    amount?: number;
     value?: number;
+    usdValue?: number;
     apy?: number;
+    apySource?: string;
+    apyTimestamp?: number;
+    // Vote account and activation state of native stake positions
+    validator?: string;
+    state?: StakeActivationState;
     timestamp: number;
 }
 
+export type StakeActivationState = "activating" | "active" | "deactivating" | "inactive";
+
+export interface StakeReward {
+    epoch: number;
+    // SOL credited to the stake account for the epoch
+    amount: number;
+    postBalance: number;
+    commission?: number;
+}
+
+export interface StakeLockup {
+    unixTimestamp: number;
+    epoch: number;
+    custodian: string;
+    inForce: boolean;
+}
+
+export interface StakeAccount {
+    address: string;
+    // Total SOL in the account, including the rent-exempt reserve
+    balance: number;
+    delegatedStake?: number;
+    state: StakeActivationState;
+    validator?: string;
+    validatorCommission?: number;
+    validatorDelinquent?: boolean;
+    activationEpoch?: number;
+    deactivationEpoch?: number;
+    staker: string;
+    withdrawer: string;
+    lockup: StakeLockup;
+    rewards: StakeReward[];
+}
+
+export interface StakeOverview {
+    address: string;
+    currentEpoch: number;
+    accounts: StakeAccount[];
+    warnings: string[];
+}
+
 export interface WalletProfile {
     address: string;
     activityCount: number;
@@ -34,6 +223,7 @@ export interface WalletProfile {
     lastActivityDate: number;
     favoriteProtocols: { name: string; count: number }[];
     transactionVolume: number;
+    transactionVolumeUsd?: number;
     riskProfile: "conservative" | "moderate" | "aggressive";
     portfolioDiversification: number;
 }
@@ -44,6 +234,23 @@ export interface TransactionPattern {
     description: string;
 }
 
+export type ScamFindingKind = "dust" | "address_poisoning" | "spam_airdrop" | "unsolicited_nft";
+
+export interface ScamFinding {
+    kind: ScamFindingKind;
+    signature: string;
+    timestamp: number;
+    // Sender of the transfer, or the lookalike address for address poisoning
+    address?: string;
+    // Counterparty (or the wallet itself) that a lookalike address imitates
+    lookalikeOf?: string;
+    // Whether the wallet sent funds to the lookalike
+    sentTo?: boolean;
+    mint?: string;
+    symbol?: string;
+    amount?: number;
+}
+
 export interface Strategy {
     strategy: string;
     description: string;
@@ -51,19 +258,313 @@ export interface Strategy {
     potentialReturn: string;
 }
 
+export type ProtocolCategory =
+    | "aggregator"
+    | "dex"
+    | "orderbook"
+    | "perps"
+    | "lending"
+    | "staking"
+    | "marketplace"
+    | "nft"
+    | "core";
+
+export interface ProtocolDefinition {
+    id: string;
+    name: string;
+    category: ProtocolCategory;
+    programIds: string[];
+    emoji: string;
+    website?: string;
+}
+
+export type CostBasisMethod = "fifo" | "lifo" | "average";
+
+export interface TaxLot {
+    mint: string;
+    amount: number;
+    // Undefined when the acquisition couldn't be priced
+    costUsd?: number;
+    acquiredAt: number;
+    signature: string;
+}
+
+export interface RealizedEvent {
+    signature: string;
+    timestamp: number;
+    mint: string;
+    symbol: string;
+    amount: number;
+    proceedsUsd?: number;
+    costBasisUsd?: number;
+    gainUsd?: number;
+    // Acquisition date of the matched lot (earliest lot for average cost)
+    acquiredAt?: number;
+    // False when the amount exceeded the lots tracked in the analyzed history
+    matched: boolean;
+}
+
+export interface TokenPnL {
+    mint: string;
+    symbol: string;
+    acquired: number;
+    disposed: number;
+    remaining: number;
+    costBasisUsd?: number;
+    currentPrice?: number;
+    currentValueUsd?: number;
+    realizedPnlUsd: number;
+    unrealizedPnlUsd?: number;
+}
+
+export interface PnLReport {
+    method: CostBasisMethod;
+    tokens: TokenPnL[];
+    disposals: RealizedEvent[];
+    totalRealizedUsd: number;
+    totalUnrealizedUsd?: number;
+    totalCostBasisUsd?: number;
+    totalCurrentValueUsd?: number;
+    from: number;
+    to: number;
+    activityCount: number;
+    warnings: string[];
+}
+
+export type TaxEventKind = "trade" | "income" | "fee" | "transfer_in" | "transfer_out";
+
+export type TaxExportLayout = "generic" | "koinly" | "cointracker";
+
+export interface TaxEvent {
+    timestamp: number;
+    signature: string;
+    kind: TaxEventKind;
+    sentAmount?: number;
+    sentCurrency?: string;
+    receivedAmount?: number;
+    receivedCurrency?: string;
+    feeAmount?: number;
+    feeCurrency?: string;
+    usdValue?: number;
+    // Income subtype, e.g. "staking" or "airdrop"
+    label?: string;
+    description: string;
+}
+
+export interface TaxExportResult {
+    filePath: string;
+    layout: TaxExportLayout;
+    events: TaxEvent[];
+}
+
+export type HistoryInterval = "daily" | "hourly";
+
+export interface PortfolioSnapshot {
+    // End of the bucket the balances were reconstructed at
+    timestamp: number;
+    balances: Record<string, number>;
+    valueUsd?: number;
+    // Mints held in this bucket that had no price
+    unpricedMints: string[];
+}
+
+export interface PortfolioHistory {
+    address: string;
+    interval: HistoryInterval;
+    start: number;
+    end: number;
+    tokens: Array<{ mint: string; symbol: string }>;
+    snapshots: PortfolioSnapshot[];
+    // False when the fetched history doesn't reach back to the start of the range
+    complete: boolean;
+    warnings: string[];
+}
+
+export interface Portfolio {
+    name: string;
+    addresses: string[];
+    description?: string;
+}
+
+export interface TokenFlow {
+    mint: string;
+    symbol: string;
+    inflow: number;
+    outflow: number;
+    // Amount moved between member wallets, excluded from inflow and outflow
+    internal: number;
+}
+
+export interface PortfolioFlows {
+    tokens: TokenFlow[];
+    internalTransfers: number;
+    // Transactions seen from more than one member wallet
+    sharedTransactions: number;
+}
+
+export interface ComparedWallet {
+    profile: WalletProfile;
+    patterns: TransactionPattern[];
+    recommendations: Strategy[];
+    activities: WalletActivity[];
+}
+
+export interface WalletComparisonEntry {
+    profile: WalletProfile;
+    patterns: TransactionPattern[];
+    recommendations: Strategy[];
+    activityTypes: Record<string, number>;
+    counterpartyCount: number;
+}
+
+export interface SharedItem {
+    id: string;
+    // Compared wallets that have the item
+    wallets: string[];
+}
+
+export interface WalletComparison {
+    wallets: WalletComparisonEntry[];
+    // Items seen by at least two of the compared wallets
+    sharedProtocols: SharedItem[];
+    sharedCounterparties: SharedItem[];
+    // Items seen by only one wallet, keyed by wallet address
+    uniqueProtocols: Record<string, string[]>;
+    uniqueCounterparties: Record<string, string[]>;
+}
+
 export interface TransactionDetails {
     signature: string;
     blockTime: number;
     fee: number;
+    feeUsd?: number;
     status: string;
     type: string;
     accounts: string[];
     programIds: Array<{ id: string; name: string }>;
 }
 
+export interface SimulatedBalanceChange {
+    // Wallet whose SOL or token balance changes (the token account owner for tokens)
+    owner: string;
+    mint: string;
+    symbol: string;
+    before: number;
+    after: number;
+    change: number;
+}
+
+export type AuthorityChangeKind =
+    | "owner"
+    | "delegate"
+    | "closeAuthority"
+    | "mintAuthority"
+    | "freezeAuthority"
+    | "staker"
+    | "withdrawer"
+    | "programOwner";
+
+export interface AuthorityChange {
+    account: string;
+    kind: AuthorityChangeKind;
+    before?: string;
+    after?: string;
+    mint?: string;
+    // Delegated amount in token units; unlimited when it covers the whole supply
+    amount?: number;
+    unlimited?: boolean;
+}
+
+export type RiskLevel = "high" | "medium" | "low";
+
+export interface RiskWarning {
+    level: RiskLevel;
+    message: string;
+    account?: string;
+}
+
+export interface SimulationResult {
+    status: "Success" | "Failed";
+    error?: string;
+    version: "legacy" | number;
+    feePayer: string;
+    signers: string[];
+    fee?: number;
+    feeUsd?: number;
+    unitsConsumed?: number;
+    programIds: Array<{ id: string; name: string; known: boolean }>;
+    balanceChanges: SimulatedBalanceChange[];
+    authorityChanges: AuthorityChange[];
+    logs: string[];
+    warnings: RiskWarning[];
+}
+
+export type TokenApprovalKind = "delegate" | "closeAuthority" | "owner";
+
+export interface TokenApproval {
+    kind: TokenApprovalKind;
+    tokenAccount: string;
+    mint: string;
+    symbol: string;
+    // Tokens currently in the account
+    balance: number;
+    // The delegate, close authority or new owner
+    authority: string;
+    authorityLabel?: string;
+    known: boolean;
+    delegatedAmount?: number;
+    unlimited?: boolean;
+    // Transaction that granted the authority, when found in the account's history
+    grantedBy?: { signature: string; timestamp?: number };
+    risk: RiskLevel;
+    riskScore: number;
+    reasons: string[];
+}
+
+export interface TokenApprovalAudit {
+    address: string;
+    tokenAccountsScanned: number;
+    approvals: TokenApproval[];
+    warnings: string[];
+}
+
+export interface PricePoint {
+    mint: string;
+    price: number;
+    timestamp: number;
+    source: string;
+}
+
+export interface PriceProvider {
+    readonly name: string;
+    getSpotPrice(mint: string): Promise<PricePoint | undefined>;
+    getHistoricalPrice(mint: string, timestamp: number): Promise<PricePoint | undefined>;
+}
+
+export interface ActivityMarker {
+    signature: string;
+    timestamp: number;
+}
+
+export interface ApyQuote {
+    apy: number;
+    source: string;
+    timestamp: number;
+}
+
+export interface ApySource {
+    readonly name: string;
+    getApy(protocol: string, positionType: string, token?: string): Promise<ApyQuote | undefined>;
+}
+
 export interface CacheEntry {
+    version: number;
     lastUpdated: number;
-    activities: WalletActivity[];
+    newest?: ActivityMarker;
+    oldest?: ActivityMarker;
+    reachedEnd: boolean;
     profile?: WalletProfile;
+    profileKey?: string;
     defiPositions?: DeFiPosition[];
+    defiPositionsUpdated?: number;
 } 
\ No newline at end of file
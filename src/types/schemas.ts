@@ -0,0 +1,390 @@
+import { z } from "zod";
+
+// Zod counterparts of the interfaces tools return, used as their declared
+// output schemas. Keep them in step with interfaces.ts.
+
+export const tokenMovementSchema = z.object({
+    mint: z.string(),
+    symbol: z.string(),
+    amount: z.number(),
+    direction: z.enum(["in", "out"]),
+    decimals: z.number().optional(),
+});
+
+export const counterpartyTransferSchema = z.object({
+    address: z.string(),
+    mint: z.string(),
+    symbol: z.string(),
+    amount: z.number(),
+    direction: z.enum(["in", "out"]),
+});
+
+export const swapDetailsSchema = z.object({
+    inputMint: z.string(),
+    inputSymbol: z.string(),
+    inputAmount: z.number(),
+    outputMint: z.string(),
+    outputSymbol: z.string(),
+    outputAmount: z.number(),
+    price: z.number(),
+    venue: z.string(),
+    route: z.array(z.string()),
+    networkFee: z.number().describe("Network fee in SOL; platform and LP fees are netted into the amounts"),
+    usdValue: z.number().optional(),
+});
+
+export const nftTradeSchema = z.object({
+    action: z.enum(["buy", "sell", "list", "delist"]),
+    mint: z.string(),
+    marketplace: z.string(),
+    price: z.number().optional(),
+    usdValue: z.number().optional(),
+});
+
+export const walletActivitySchema = z.object({
+    timestamp: z.number(),
+    signature: z.string(),
+    type: z.string(),
+    description: z.string(),
+    value: z.number().optional(),
+    usdValue: z.number().optional(),
+    token: z.string().optional(),
+    tokenMovements: z.array(tokenMovementSchema).optional(),
+    swap: swapDetailsSchema.optional(),
+    nft: nftTradeSchema.optional(),
+    counterparties: z.array(counterpartyTransferSchema).optional(),
+    fee: z.number().optional(),
+    programId: z.string(),
+    protocols: z.array(z.string()).optional(),
+    success: z.boolean(),
+    rewardClaim: z.boolean().optional(),
+    wallets: z.array(z.string()).optional(),
+    netted: z.boolean().optional(),
+});
+
+export const addressLabelSchema = z.object({
+    address: z.string(),
+    label: z.string(),
+    category: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+});
+
+export const counterpartySummarySchema = z.object({
+    address: z.string(),
+    label: z.string().optional(),
+    labelSource: z.enum(["label-file", "program", "built-in", "unknown"]),
+    category: z.string().optional(),
+    transactionCount: z.number(),
+    sentCount: z.number(),
+    receivedCount: z.number(),
+    amounts: z.array(
+        z.object({
+            mint: z.string(),
+            symbol: z.string(),
+            sent: z.number(),
+            received: z.number(),
+        })
+    ),
+    firstSeen: z.number(),
+    lastSeen: z.number(),
+});
+
+export const nftHoldingSchema = z.object({
+    mint: z.string(),
+    tokenAccount: z.string().optional(),
+    tokenProgram: z.string().optional(),
+    metadata: z
+        .object({
+            name: z.string(),
+            symbol: z.string(),
+            uri: z.string(),
+            updateAuthority: z.string(),
+            sellerFeeBasisPoints: z.number(),
+            collection: z.object({ address: z.string(), verified: z.boolean() }).optional(),
+        })
+        .optional(),
+});
+
+export const swapPairSummarySchema = z.object({
+    pair: z.string(),
+    inputSymbol: z.string(),
+    outputSymbol: z.string(),
+    count: z.number(),
+    totalInput: z.number(),
+    totalOutput: z.number(),
+    averagePrice: z.number(),
+    totalUsdValue: z.number().optional(),
+    venues: z.array(z.string()),
+    firstSwap: z.number(),
+    lastSwap: z.number(),
+});
+
+export const tokenHoldingSchema = z.object({
+    mint: z.string(),
+    symbol: z.string(),
+    amount: z.number(),
+    decimals: z.number(),
+    usdValue: z.number().optional(),
+    tokenAccount: z.string().optional(),
+    tokenProgram: z.string().optional(),
+    isNative: z.boolean().optional(),
+    reclaimableRent: z.number().optional(),
+});
+
+const stakeActivationStateSchema = z.enum(["activating", "active", "deactivating", "inactive"]);
+
+export const defiPositionSchema = z.object({
+    protocol: z.string(),
+    type: z.string(),
+    source: z.enum(["on-chain", "inferred"]),
+    account: z.string().optional(),
+    tokenA: z.string().optional(),
+    tokenB: z.string().optional(),
+    amount: z.number().optional(),
+    value: z.number().optional(),
+    usdValue: z.number().optional(),
+    apy: z.number().optional(),
+    apySource: z.string().optional(),
+    apyTimestamp: z.number().optional(),
+    validator: z.string().optional(),
+    state: stakeActivationStateSchema.optional(),
+    timestamp: z.number(),
+});
+
+export const stakeAccountSchema = z.object({
+    address: z.string(),
+    balance: z.number(),
+    delegatedStake: z.number().optional(),
+    state: stakeActivationStateSchema,
+    validator: z.string().optional(),
+    validatorCommission: z.number().optional(),
+    validatorDelinquent: z.boolean().optional(),
+    activationEpoch: z.number().optional(),
+    deactivationEpoch: z.number().optional(),
+    staker: z.string(),
+    withdrawer: z.string(),
+    lockup: z.object({
+        unixTimestamp: z.number(),
+        epoch: z.number(),
+        custodian: z.string(),
+        inForce: z.boolean(),
+    }),
+    rewards: z.array(
+        z.object({
+            epoch: z.number(),
+            amount: z.number(),
+            postBalance: z.number(),
+            commission: z.number().optional(),
+        })
+    ),
+});
+
+export const walletProfileSchema = z.object({
+    address: z.string(),
+    activityCount: z.number(),
+    firstActivityDate: z.number(),
+    lastActivityDate: z.number(),
+    favoriteProtocols: z.array(z.object({ name: z.string(), count: z.number() })),
+    transactionVolume: z.number(),
+    transactionVolumeUsd: z.number().optional(),
+    riskProfile: z.enum(["conservative", "moderate", "aggressive"]),
+    portfolioDiversification: z.number(),
+});
+
+export const transactionPatternSchema = z.object({
+    patternType: z.string(),
+    confidence: z.number(),
+    description: z.string(),
+});
+
+export const scamFindingSchema = z.object({
+    kind: z.enum(["dust", "address_poisoning", "spam_airdrop", "unsolicited_nft"]),
+    signature: z.string(),
+    timestamp: z.number(),
+    address: z.string().optional(),
+    lookalikeOf: z.string().optional(),
+    sentTo: z.boolean().optional(),
+    mint: z.string().optional(),
+    symbol: z.string().optional(),
+    amount: z.number().optional(),
+});
+
+export const strategySchema = z.object({
+    strategy: z.string(),
+    description: z.string(),
+    riskLevel: z.enum(["low", "medium", "high"]),
+    potentialReturn: z.string(),
+});
+
+export const protocolDefinitionSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    category: z.enum(["aggregator", "dex", "orderbook", "perps", "lending", "staking", "marketplace", "nft", "core"]),
+    programIds: z.array(z.string()),
+    emoji: z.string(),
+    website: z.string().optional(),
+});
+
+export const costBasisMethodSchema = z.enum(["fifo", "lifo", "average"]);
+
+export const pnlReportSchema = z.object({
+    method: costBasisMethodSchema,
+    tokens: z.array(
+        z.object({
+            mint: z.string(),
+            symbol: z.string(),
+            acquired: z.number(),
+            disposed: z.number(),
+            remaining: z.number(),
+            costBasisUsd: z.number().optional(),
+            currentPrice: z.number().optional(),
+            currentValueUsd: z.number().optional(),
+            realizedPnlUsd: z.number(),
+            unrealizedPnlUsd: z.number().optional(),
+        })
+    ),
+    disposals: z.array(
+        z.object({
+            signature: z.string(),
+            timestamp: z.number(),
+            mint: z.string(),
+            symbol: z.string(),
+            amount: z.number(),
+            proceedsUsd: z.number().optional(),
+            costBasisUsd: z.number().optional(),
+            gainUsd: z.number().optional(),
+            acquiredAt: z.number().optional(),
+            matched: z.boolean(),
+        })
+    ),
+    totalRealizedUsd: z.number(),
+    totalUnrealizedUsd: z.number().optional(),
+    totalCostBasisUsd: z.number().optional(),
+    totalCurrentValueUsd: z.number().optional(),
+    from: z.number(),
+    to: z.number(),
+    activityCount: z.number(),
+    warnings: z.array(z.string()),
+});
+
+export const taxExportLayoutSchema = z.enum(["generic", "koinly", "cointracker"]);
+
+export const portfolioSnapshotSchema = z.object({
+    timestamp: z.number(),
+    balances: z.record(z.number()),
+    valueUsd: z.number().optional(),
+    unpricedMints: z.array(z.string()),
+});
+
+export const portfolioSchema = z.object({
+    name: z.string(),
+    addresses: z.array(z.string()),
+    description: z.string().optional(),
+});
+
+export const portfolioFlowsSchema = z.object({
+    tokens: z.array(
+        z.object({
+            mint: z.string(),
+            symbol: z.string(),
+            inflow: z.number(),
+            outflow: z.number(),
+            internal: z.number(),
+        })
+    ),
+    internalTransfers: z.number(),
+    sharedTransactions: z.number(),
+});
+
+export const walletComparisonEntrySchema = z.object({
+    profile: walletProfileSchema,
+    patterns: z.array(transactionPatternSchema),
+    recommendations: z.array(strategySchema),
+    activityTypes: z.record(z.number()),
+    counterpartyCount: z.number(),
+});
+
+export const sharedItemSchema = z.object({
+    id: z.string(),
+    wallets: z.array(z.string()),
+});
+
+export const transactionDetailsSchema = z.object({
+    signature: z.string(),
+    blockTime: z.number(),
+    fee: z.number(),
+    feeUsd: z.number().optional(),
+    status: z.string(),
+    type: z.string(),
+    accounts: z.array(z.string()),
+    programIds: z.array(z.object({ id: z.string(), name: z.string() })),
+});
+
+const riskLevelSchema = z.enum(["high", "medium", "low"]);
+
+export const simulationResultSchema = z.object({
+    status: z.enum(["Success", "Failed"]),
+    error: z.string().optional(),
+    version: z.union([z.literal("legacy"), z.number()]),
+    feePayer: z.string(),
+    signers: z.array(z.string()),
+    fee: z.number().optional(),
+    feeUsd: z.number().optional(),
+    unitsConsumed: z.number().optional(),
+    programIds: z.array(z.object({ id: z.string(), name: z.string(), known: z.boolean() })),
+    balanceChanges: z.array(
+        z.object({
+            owner: z.string(),
+            mint: z.string(),
+            symbol: z.string(),
+            before: z.number(),
+            after: z.number(),
+            change: z.number(),
+        })
+    ),
+    authorityChanges: z.array(
+        z.object({
+            account: z.string(),
+            kind: z.enum([
+                "owner",
+                "delegate",
+                "closeAuthority",
+                "mintAuthority",
+                "freezeAuthority",
+                "staker",
+                "withdrawer",
+                "programOwner",
+            ]),
+            before: z.string().optional(),
+            after: z.string().optional(),
+            mint: z.string().optional(),
+            amount: z.number().optional(),
+            unlimited: z.boolean().optional(),
+        })
+    ),
+    logs: z.array(z.string()),
+    warnings: z.array(
+        z.object({
+            level: riskLevelSchema,
+            message: z.string(),
+            account: z.string().optional(),
+        })
+    ),
+});
+
+export const tokenApprovalSchema = z.object({
+    kind: z.enum(["delegate", "closeAuthority", "owner"]),
+    tokenAccount: z.string(),
+    mint: z.string(),
+    symbol: z.string(),
+    balance: z.number(),
+    authority: z.string(),
+    authorityLabel: z.string().optional(),
+    known: z.boolean(),
+    delegatedAmount: z.number().optional(),
+    unlimited: z.boolean().optional(),
+    grantedBy: z.object({ signature: z.string(), timestamp: z.number().optional() }).optional(),
+    risk: riskLevelSchema,
+    riskScore: z.number(),
+    reasons: z.array(z.string()),
+});
@@ -0,0 +1,6 @@
+/**
+ * Shortens a base58 address for display, e.g. "7xKX…gAsU"
+ */
+export function shortenAddress(address: string): string {
+    return address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address;
+}
@@ -1,37 +1,162 @@
-import { CacheEntry } from '../types/interfaces';
+import fs from 'fs';
+import path from 'path';
+import { CacheEntry, WalletActivity } from '../types/interfaces';
+import { CACHE_CONFIG } from '../config/constants';
 
+// Bump when the stored WalletActivity shape changes so old files are discarded
+const STORE_VERSION = 8;
+
+interface WalletRecord {
+    entry: CacheEntry;
+    activities: Map<string, WalletActivity>;
+}
+
+/**
+ * Persistent wallet store.
+ *
+ * Each wallet gets a directory holding an append-only `activities.jsonl` with
+ * one parsed activity per signature, and a `meta.json` with sync markers and
+ * derived data. `newest`/`oldest` mark the contiguous run of history that has
+ * been synced, so later syncs only need signatures outside that run.
+ */
 class WalletCache {
-    private cache: Map<string, CacheEntry>;
+    private records: Map<string, WalletRecord>;
     private static instance: WalletCache;
 
-    private constructor() {
-        this.cache = new Map();
+    private constructor(private readonly directory: string) {
+        this.records = new Map();
     }
 
     public static getInstance(): WalletCache {
         if (!WalletCache.instance) {
-            WalletCache.instance = new WalletCache();
+            WalletCache.instance = new WalletCache(CACHE_CONFIG.directory);
         }
         return WalletCache.instance;
     }
 
     public get(key: string): CacheEntry | undefined {
-        return this.cache.get(key);
+        const record = this.load(key);
+        return record.entry.lastUpdated > 0 ? record.entry : undefined;
     }
 
-    public set(key: string, value: CacheEntry): void {
-        this.cache.set(key, value);
+    public update(key: string, patch: Partial<CacheEntry>): CacheEntry {
+        const record = this.load(key);
+        record.entry = { ...record.entry, ...patch };
+        this.writeMeta(key, record.entry);
+        return record.entry;
     }
 
     public has(key: string): boolean {
-        return this.cache.has(key);
+        return this.get(key) !== undefined;
     }
 
-    public isStale(key: string, maxAge: number = 5 * 60 * 1000): boolean {
-        const entry = this.cache.get(key);
+    public isStale(key: string, maxAge: number = CACHE_CONFIG.maxAge): boolean {
+        const entry = this.get(key);
         if (!entry) return true;
         return Date.now() - entry.lastUpdated > maxAge;
     }
+
+    public getActivity(key: string, signature: string): WalletActivity | undefined {
+        return this.load(key).activities.get(signature);
+    }
+
+    /**
+     * Returns the synced contiguous history, newest first
+     */
+    public getHistory(key: string): WalletActivity[] {
+        const { entry, activities } = this.load(key);
+        if (!entry.newest || !entry.oldest) return [];
+
+        const { newest, oldest } = entry;
+        return Array.from(activities.values())
+            .filter((a) => a.timestamp <= newest.timestamp && a.timestamp >= oldest.timestamp)
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Appends activities not stored yet and invalidates derived entries
+     * when anything new arrived
+     * @returns Number of newly stored activities
+     */
+    public addActivities(key: string, activities: WalletActivity[]): number {
+        const record = this.load(key);
+        const fresh = activities.filter((a) => !record.activities.has(a.signature));
+        if (fresh.length === 0) return 0;
+
+        fs.mkdirSync(this.walletDir(key), { recursive: true });
+        fs.appendFileSync(
+            path.join(this.walletDir(key), 'activities.jsonl'),
+            fresh.map((a) => JSON.stringify(a)).join('\n') + '\n'
+        );
+        fresh.forEach((a) => record.activities.set(a.signature, a));
+
+        // Always write meta so the appended activities are tagged with the store version
+        const { profile, profileKey, defiPositions, defiPositionsUpdated, ...rest } = record.entry;
+        record.entry = rest;
+        this.writeMeta(key, record.entry);
+        return fresh.length;
+    }
+
+    /**
+     * Drops derived data that depends on the wallet's activity
+     */
+    public invalidate(key: string): void {
+        const record = this.load(key);
+        const { profile, profileKey, defiPositions, defiPositionsUpdated, ...rest } = record.entry;
+        if (profile || defiPositions) {
+            record.entry = rest;
+            this.writeMeta(key, record.entry);
+        }
+    }
+
+    private load(key: string): WalletRecord {
+        const cached = this.records.get(key);
+        if (cached) return cached;
+
+        const record: WalletRecord = {
+            entry: { version: STORE_VERSION, lastUpdated: 0, reachedEnd: false },
+            activities: new Map(),
+        };
+
+        try {
+            const metaPath = path.join(this.walletDir(key), 'meta.json');
+            const activitiesPath = path.join(this.walletDir(key), 'activities.jsonl');
+
+            if (fs.existsSync(metaPath)) {
+                const entry = JSON.parse(fs.readFileSync(metaPath, 'utf8')) as CacheEntry;
+
+                if (entry.version === STORE_VERSION) {
+                    record.entry = entry;
+                    if (fs.existsSync(activitiesPath)) {
+                        for (const line of fs.readFileSync(activitiesPath, 'utf8').split('\n')) {
+                            if (!line.trim()) continue;
+                            const activity = JSON.parse(line) as WalletActivity;
+                            record.activities.set(activity.signature, activity);
+                        }
+                    }
+                } else {
+                    fs.rmSync(this.walletDir(key), { recursive: true, force: true });
+                }
+            } else if (fs.existsSync(activitiesPath)) {
+                fs.rmSync(this.walletDir(key), { recursive: true, force: true });
+            }
+        } catch (error) {
+            console.error(`Error loading cached data for ${key}:`, error);
+        }
+
+        this.records.set(key, record);
+        return record;
+    }
+
+    private writeMeta(key: string, entry: CacheEntry): void {
+        fs.mkdirSync(this.walletDir(key), { recursive: true });
+        fs.writeFileSync(path.join(this.walletDir(key), 'meta.json'), JSON.stringify(entry, null, 2));
+    }
+
+    private walletDir(key: string): string {
+        // Base58 addresses are filesystem safe; strip anything else defensively
+        return path.join(this.directory, key.replace(/[^1-9A-HJ-NP-Za-km-z]/g, ''));
+    }
 }
 
-export const walletCache = WalletCache.getInstance(); 
\ No newline at end of file
+export const walletCache = WalletCache.getInstance();
@@ -0,0 +1,11 @@
+/**
+ * Serializes one CSV row, quoting cells that contain commas, quotes or newlines
+ */
+export function toCsvRow(cells: Array<string | number | undefined>): string {
+    return cells
+        .map((cell) => {
+            const text = cell === undefined ? "" : String(cell);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",");
+}
@@ -0,0 +1,20 @@
+/**
+ * Formats a USD amount, or "N/A" when no price was available
+ */
+export function formatUsd(value: number | undefined): string {
+    if (value === undefined || !Number.isFinite(value)) return "N/A";
+    return value.toLocaleString("en-US", {
+        style: "currency",
+        currency: "USD",
+        minimumFractionDigits: 2,
+        maximumFractionDigits: Math.abs(value) < 1 ? 4 : 2,
+    });
+}
+
+/**
+ * Formats a USD amount as a suffix for SOL figures, e.g. " (≈ $12.34)"
+ */
+export function formatUsdSuffix(value: number | undefined): string {
+    if (value === undefined || !Number.isFinite(value)) return "";
+    return ` (≈ ${formatUsd(value)})`;
+}
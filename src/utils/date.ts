@@ -0,0 +1,34 @@
+/**
+ * Parses a date parameter given as an ISO string or unix timestamp
+ * @returns Milliseconds since epoch, or undefined when no value was given
+ */
+export function parseDateParam(value: string | undefined, name: string): number | undefined {
+    if (value === undefined || value === "") return undefined;
+
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) {
+        // Treat values below 1e12 as unix seconds
+        return numeric < 1e12 ? numeric * 1000 : numeric;
+    }
+
+    const parsed = Date.parse(value);
+    if (!Number.isFinite(parsed)) {
+        throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+}
+
+/**
+ * Parses a timestamp from data files given as unix seconds, milliseconds or
+ * an ISO string
+ * @returns Milliseconds since epoch, or 0 when the value can't be parsed
+ */
+export function parseTimestamp(value: number | string): number {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) {
+        // Treat values below 1e12 as unix seconds
+        return numeric < 1e12 ? numeric * 1000 : numeric;
+    }
+    const parsed = Date.parse(String(value));
+    return Number.isFinite(parsed) ? parsed : 0;
+}
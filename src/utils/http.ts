@@ -0,0 +1,22 @@
+/**
+ * Reads a value from parsed JSON by dot path, e.g. "data.price"
+ */
+export function readJsonPath(data: unknown, dotPath: string): unknown {
+    return dotPath.split(".").reduce<unknown>((current, key) => {
+        if (current && typeof current === "object") {
+            return (current as Record<string, unknown>)[key];
+        }
+        return undefined;
+    }, data);
+}
+
+/**
+ * Gets the host of a URL for labelling data sources without leaking query strings
+ */
+export function getHostLabel(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return "unconfigured";
+    }
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+export type OutputFormat = "markdown" | "json" | "both";
+
+/**
+ * The `format` parameter every tool takes. Structured content is returned in
+ * all cases; this only controls which text items accompany it.
+ */
+export const formatParameter = z
+    .enum(["markdown", "json", "both"])
+    .optional()
+    .default("both")
+    .describe("markdown for the report only, json for the data only, or both");
+
+/**
+ * Builds a tool result carrying the data as structuredContent, plus the
+ * markdown report and/or the same data as JSON text for clients that don't
+ * read structured content
+ */
+export function toolResult<T extends Record<string, unknown>>(markdown: string, data: T, format: OutputFormat) {
+    const content: Array<{ type: "text"; text: string }> = [];
+    if (format !== "json") content.push({ type: "text", text: markdown });
+    if (format !== "markdown") content.push({ type: "text", text: JSON.stringify(data) });
+
+    return { content, structuredContent: data };
+}
+
+/**
+ * Error result for a failed tool call. Marked isError so the output schema
+ * isn't enforced.
+ */
+export function toolError(error: unknown) {
+    return {
+        content: [
+            {
+                type: "text" as const,
+                text: JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : "Unknown error",
+                }),
+            },
+        ],
+        isError: true,
+    };
+}